@@ -0,0 +1,154 @@
+import { promises as fs } from 'node:fs';
+import * as vscode from 'vscode';
+import { checkSweepCandidates, describeStaleCount } from './core/background-sweep';
+import { readSweepSettings, type ConfigurationLike } from './core/settings';
+
+const CHECK_DEBOUNCE_MS = 2000;
+const BUSY_RETRY_MS = 60 * 1000;
+
+export type BackgroundSweepStatusDeps = {
+	readonly getWorkspaceRoot: () => string | undefined;
+	/** Runs git without logging: background checks must not flood the output channel. */
+	readonly runGitCommand: (args: string[], cwd: string) => Promise<{ stdout: string; stderr: string }>;
+	readonly getConfiguration: () => ConfigurationLike;
+	/** Command run when the status-bar item is clicked. */
+	readonly command: string;
+};
+
+async function pathExists(filePath: string): Promise<boolean> {
+	try {
+		await fs.access(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Opt-in background check (gitSweepPro.backgroundSweep): after each fetch and on an interval,
+ * counts sweep candidates and shows them in the status bar. It never deletes anything; clicking
+ * the item starts the regular, confirmed sweep.
+ */
+export class BackgroundSweepStatus implements vscode.Disposable {
+	private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+	private readonly disposables: vscode.Disposable[] = [];
+	private fetchWatchers: vscode.FileSystemWatcher[] = [];
+	private intervalTimer: ReturnType<typeof setInterval> | undefined;
+	private checkTimer: ReturnType<typeof setTimeout> | undefined;
+	private enabled = false;
+	private checking = false;
+	private lastRoot: string | undefined;
+
+	constructor(private readonly deps: BackgroundSweepStatusDeps) {
+		this.item.command = deps.command;
+		this.disposables.push(
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				if (event.affectsConfiguration('gitSweepPro')) {
+					this.applySettings();
+				}
+			}),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.applySettings()),
+			vscode.window.onDidChangeActiveTextEditor(() => {
+				if (this.enabled && this.deps.getWorkspaceRoot() !== this.lastRoot) {
+					this.scheduleCheck();
+				}
+			})
+		);
+		this.applySettings();
+	}
+
+	/** Recomputes the count soon, e.g. after a sweep command finished. No-op while disabled. */
+	scheduleCheck(delayMs = CHECK_DEBOUNCE_MS): void {
+		if (!this.enabled) {
+			return;
+		}
+		if (this.checkTimer) {
+			clearTimeout(this.checkTimer);
+		}
+		this.checkTimer = setTimeout(() => {
+			this.checkTimer = undefined;
+			void this.check();
+		}, delayMs);
+	}
+
+	dispose(): void {
+		this.stop();
+		this.disposables.forEach((d) => d.dispose());
+		this.item.dispose();
+	}
+
+	private applySettings(): void {
+		this.stop();
+		const settings = readSweepSettings(this.deps.getConfiguration());
+		this.enabled = settings.backgroundSweep;
+		if (!this.enabled) {
+			this.item.hide();
+			return;
+		}
+
+		this.fetchWatchers = (vscode.workspace.workspaceFolders ?? []).map((folder) => {
+			const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '.git/FETCH_HEAD'));
+			watcher.onDidChange(() => this.scheduleCheck());
+			watcher.onDidCreate(() => this.scheduleCheck());
+			return watcher;
+		});
+		if (settings.backgroundSweepIntervalMinutes > 0) {
+			this.intervalTimer = setInterval(() => this.scheduleCheck(), settings.backgroundSweepIntervalMinutes * 60 * 1000);
+		}
+		this.scheduleCheck();
+	}
+
+	private stop(): void {
+		this.fetchWatchers.forEach((w) => w.dispose());
+		this.fetchWatchers = [];
+		if (this.intervalTimer) {
+			clearInterval(this.intervalTimer);
+			this.intervalTimer = undefined;
+		}
+		if (this.checkTimer) {
+			clearTimeout(this.checkTimer);
+			this.checkTimer = undefined;
+		}
+	}
+
+	private async check(): Promise<void> {
+		if (this.checking) {
+			return;
+		}
+		const repoRoot = this.deps.getWorkspaceRoot();
+		this.lastRoot = repoRoot;
+		if (!repoRoot) {
+			this.item.hide();
+			return;
+		}
+
+		this.checking = true;
+		try {
+			const result = await checkSweepCandidates(repoRoot, {
+				runGitCommand: this.deps.runGitCommand,
+				config: this.deps.getConfiguration(),
+				pathExists,
+			});
+			if (!this.enabled) {
+				return;
+			}
+			if (result.status === 'busy') {
+				/* Keep the last count and try again once the rebase/merge is likely done */
+				this.scheduleCheck(BUSY_RETRY_MS);
+				return;
+			}
+			if (result.branches.length === 0) {
+				this.item.hide();
+				return;
+			}
+			this.item.text = `$(git-branch) ${describeStaleCount(result.branches.length)}`;
+			this.item.tooltip = `Git Sweep Pro: ${result.branches.join(', ')}\nClick to review and sweep.`;
+			this.item.show();
+		} catch {
+			/* Not a repository or git unavailable */
+			this.item.hide();
+		} finally {
+			this.checking = false;
+		}
+	}
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import {
+	BRANCH_HEALTH_GROUP_LABELS,
+	BRANCH_HEALTH_GROUPS,
+	collectBranchHealth,
+	formatCommitDate,
+	type BranchHealth,
+	type BranchHealthGroup,
+} from './core/branch-health';
+import { resolveDefaultBranch } from './core/default-branch';
+import { resolveJournalKey, type DeletionJournal, type DeletionJournalEntry } from './core/deletion-journal';
+import { readSweepSettings, type ConfigurationLike } from './core/settings';
+
+export const BRANCH_HEALTH_VIEW_ID = 'gitSweepPro.branchHealth';
+
+const MAX_DELETED_NODES = 20;
+const REFRESH_DEBOUNCE_MS = 500;
+
+type GroupNode = {
+	readonly kind: 'group';
+	readonly label: string;
+	readonly children: readonly (BranchNode | DeletedNode)[];
+};
+
+export type BranchNode = {
+	readonly kind: 'branch';
+	readonly repoRoot: string;
+	readonly branch: BranchHealth;
+};
+
+export type DeletedNode = {
+	readonly kind: 'deleted';
+	readonly repoRoot: string;
+	readonly entry: DeletionJournalEntry;
+};
+
+export type BranchHealthNode = GroupNode | BranchNode | DeletedNode;
+
+export type BranchHealthViewDeps = {
+	readonly getWorkspaceRoot: () => string | undefined;
+	/** Runs git without logging: the view refreshes often and must not flood the output channel. */
+	readonly runGitCommand: (args: string[], cwd: string) => Promise<{ stdout: string; stderr: string }>;
+	readonly getConfiguration: () => ConfigurationLike;
+	readonly journal: DeletionJournal;
+};
+
+/**
+ * Tree of local branches grouped by health (gone upstream, merged, stale, local-only, active),
+ * plus the branches recently deleted by Git Sweep Pro.
+ */
+export class BranchHealthTreeProvider implements vscode.TreeDataProvider<BranchHealthNode>, vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<BranchHealthNode | undefined>();
+	private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+	private lastRoot: string | undefined;
+
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(private readonly deps: BranchHealthViewDeps) {}
+
+	refresh(): void {
+		this.changeEmitter.fire(undefined);
+	}
+
+	/** Coalesces bursts of repository file events into a single refresh. */
+	scheduleRefresh(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		this.refreshTimer = setTimeout(() => {
+			this.refreshTimer = undefined;
+			this.refresh();
+		}, REFRESH_DEBOUNCE_MS);
+	}
+
+	refreshIfRootChanged(): void {
+		if (this.deps.getWorkspaceRoot() !== this.lastRoot) {
+			this.scheduleRefresh();
+		}
+	}
+
+	getTreeItem(node: BranchHealthNode): vscode.TreeItem {
+		if (node.kind === 'group') {
+			const item = new vscode.TreeItem(
+				node.label,
+				node.children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+			);
+			item.description = String(node.children.length);
+			item.contextValue = 'group';
+			return item;
+		}
+
+		if (node.kind === 'deleted') {
+			const item = new vscode.TreeItem(node.entry.branch, vscode.TreeItemCollapsibleState.None);
+			item.description = `${node.entry.sha.slice(0, 7)} · deleted ${node.entry.deletedAt.slice(0, 10)}`;
+			item.iconPath = new vscode.ThemeIcon('history');
+			item.contextValue = 'deleted';
+			return item;
+		}
+
+		const { branch } = node;
+		const item = new vscode.TreeItem(branch.name, vscode.TreeItemCollapsibleState.None);
+		item.description = `${formatCommitDate(branch.lastCommit)} · ${branch.tracking}`;
+		item.tooltip = `${branch.name}\nLast commit: ${branch.lastCommit.toLocaleString()}\n${branch.tracking}`;
+		item.iconPath = new vscode.ThemeIcon(branch.isHead ? 'check' : 'git-branch');
+		item.contextValue = `branch${branch.isHead ? '.head' : ''}${branch.upstreamRemote ? '.remote' : ''}`;
+		return item;
+	}
+
+	async getChildren(node?: BranchHealthNode): Promise<BranchHealthNode[]> {
+		if (node) {
+			return node.kind === 'group' ? [...node.children] : [];
+		}
+
+		const repoRoot = this.deps.getWorkspaceRoot();
+		this.lastRoot = repoRoot;
+		if (!repoRoot) {
+			return [];
+		}
+
+		const runGit = (args: string[]) => this.deps.runGitCommand(args, repoRoot);
+		let branches: BranchHealth[];
+		let journalKey: string;
+		try {
+			journalKey = await resolveJournalKey(runGit, repoRoot);
+			const settings = readSweepSettings(this.deps.getConfiguration());
+			const defaultBranch = await resolveDefaultBranch(runGit, settings);
+			branches = await collectBranchHealth(runGit, {
+				now: new Date(),
+				staleAfterDays: settings.staleAfterDays,
+				defaultRef: defaultBranch ? `${defaultBranch.remote}/${defaultBranch.name}` : undefined,
+				defaultBranchName: defaultBranch?.name,
+			});
+		} catch {
+			/* Not a repository or git unavailable: show the welcome/empty state */
+			return [];
+		}
+
+		const groups: GroupNode[] = BRANCH_HEALTH_GROUPS.map((group: BranchHealthGroup) => ({
+			kind: 'group',
+			label: BRANCH_HEALTH_GROUP_LABELS[group],
+			children: branches
+				.filter((b) => b.group === group)
+				.map((branch): BranchNode => ({ kind: 'branch', repoRoot, branch })),
+		}));
+
+		const deleted = this.deps.journal.list(journalKey).slice(0, MAX_DELETED_NODES);
+		if (deleted.length > 0) {
+			groups.push({
+				kind: 'group',
+				label: 'Recently deleted',
+				children: deleted.map((entry): DeletedNode => ({ kind: 'deleted', repoRoot, entry })),
+			});
+		}
+
+		return groups;
+	}
+
+	dispose(): void {
+		if (this.refreshTimer) {
+			clearTimeout(this.refreshTimer);
+		}
+		this.changeEmitter.dispose();
+	}
+}
+
+/**
+ * Watches HEAD and branch refs of every workspace folder's repository and calls onChange on updates.
+ */
+export function watchRepositoryRefs(onChange: () => void): vscode.Disposable {
+	let watchers: vscode.FileSystemWatcher[] = [];
+	const create = () => {
+		watchers.forEach((w) => w.dispose());
+		watchers = (vscode.workspace.workspaceFolders ?? []).map((folder) => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(folder, '.git/{HEAD,packed-refs,refs/**}')
+			);
+			watcher.onDidChange(onChange);
+			watcher.onDidCreate(onChange);
+			watcher.onDidDelete(onChange);
+			return watcher;
+		});
+	};
+	create();
+	const folderListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+		create();
+		onChange();
+	});
+
+	return new vscode.Disposable(() => {
+		folderListener.dispose();
+		watchers.forEach((w) => w.dispose());
+	});
+}
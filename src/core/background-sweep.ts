@@ -0,0 +1,66 @@
+import * as path from 'node:path';
+import { collectSweepCandidates, type CandidateDeps } from './sweep-workflow';
+
+/**
+ * Files and directories inside the git dir that mean another operation is in progress.
+ */
+export const BUSY_MARKERS: readonly string[] = [
+	'rebase-merge',
+	'rebase-apply',
+	'MERGE_HEAD',
+	'CHERRY_PICK_HEAD',
+	'REVERT_HEAD',
+	'index.lock',
+];
+
+export type BackgroundSweepDeps = Pick<CandidateDeps, 'runGitCommand' | 'config'> & {
+	readonly pathExists: (filePath: string) => Promise<boolean>;
+};
+
+export type BackgroundCheckResult =
+	| { readonly status: 'busy'; readonly marker: string }
+	| { readonly status: 'ok'; readonly branches: readonly string[] };
+
+/**
+ * Returns the first busy marker present in the git dir, or undefined when the repository is idle.
+ */
+export async function findBusyMarker(
+	gitDir: string,
+	pathExists: BackgroundSweepDeps['pathExists']
+): Promise<string | undefined> {
+	for (const marker of BUSY_MARKERS) {
+		if (await pathExists(path.join(gitDir, marker))) {
+			return marker;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Lists sweep candidates from local state only: no fetch, no squash check, no deletion, nothing logged.
+ * Backs off when a rebase, merge or other git operation is in progress.
+ */
+export async function checkSweepCandidates(repoRoot: string, deps: BackgroundSweepDeps): Promise<BackgroundCheckResult> {
+	const gitDir = path.resolve(repoRoot, (await deps.runGitCommand(['rev-parse', '--git-dir'], repoRoot)).stdout.trim());
+	const marker = await findBusyMarker(gitDir, deps.pathExists);
+	if (marker) {
+		return { status: 'busy', marker };
+	}
+
+	const { candidates } = await collectSweepCandidates(
+		repoRoot,
+		{
+			...deps,
+			output: { show: () => undefined, appendLine: () => undefined },
+		},
+		{ readOnly: true }
+	);
+	return { status: 'ok', branches: candidates.map((c) => c.branch) };
+}
+
+/**
+ * Status-bar text for a candidate count, e.g. "3 stale branches".
+ */
+export function describeStaleCount(count: number): string {
+	return count === 1 ? '1 stale branch' : `${count} stale branches`;
+}
@@ -0,0 +1,84 @@
+import type { RunGit } from './default-branch';
+
+export type BranchDetails = {
+	readonly branch: string;
+	/** Subject line of the tip commit. */
+	readonly subject: string;
+	readonly author: string;
+	readonly committedAt: Date;
+	/** Configured upstream (e.g. "origin/feature/x"), kept even when the remote branch is gone. */
+	readonly upstream?: string;
+	readonly upstreamGone: boolean;
+	/** Commits not on the upstream; undefined when there is no upstream or it is gone. */
+	readonly ahead?: number;
+};
+
+/**
+ * `git for-each-ref` format for quick-pick details: name, subject, author, committer date (unix seconds),
+ * upstream and tracking state ("ahead 2, behind 1", "gone" or empty).
+ */
+export const BRANCH_DETAILS_FORMAT =
+	'--format=%(refname:lstrip=2)%00%(subject)%00%(authorname)%00%(committerdate:unix)%00%(upstream:short)%00%(upstream:track,nobracket)';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses `git for-each-ref` output produced with BRANCH_DETAILS_FORMAT into a map keyed by branch name.
+ */
+export function parseBranchDetails(output: string): Map<string, BranchDetails> {
+	const details = new Map<string, BranchDetails>();
+	for (const line of output.split(/\r?\n/)) {
+		const [branch, subject, author, committedAt, upstream, track] = line.split('\0');
+		const seconds = Number(committedAt);
+		if (!branch || !Number.isFinite(seconds)) {
+			continue;
+		}
+		const ahead = track?.match(/\bahead (\d+)/)?.[1];
+		details.set(branch, {
+			branch,
+			subject: subject ?? '',
+			author: author ?? '',
+			committedAt: new Date(seconds * 1000),
+			upstream: upstream || undefined,
+			upstreamGone: track === 'gone',
+			ahead: ahead !== undefined ? Number(ahead) : upstream && track !== 'gone' ? 0 : undefined,
+		});
+	}
+	return details;
+}
+
+/**
+ * Loads details of every local branch with a single `git for-each-ref` call.
+ */
+export async function loadBranchDetails(runGit: RunGit): Promise<Map<string, BranchDetails>> {
+	return parseBranchDetails((await runGit(['for-each-ref', BRANCH_DETAILS_FORMAT, 'refs/heads'])).stdout);
+}
+
+/**
+ * Coarse relative date such as "today", "3 days ago", "5 months ago" or "2 years ago".
+ */
+export function describeRelativeDate(date: Date, now: Date): string {
+	const days = Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+	if (days < 1) {
+		return 'today';
+	}
+	const [count, unit] =
+		days < 30 ? [days, 'day'] : days < 365 ? [Math.floor(days / 30), 'month'] : [Math.floor(days / 365), 'year'];
+	return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * Second quick-pick line: "<subject> · <author> · <relative date> · was <upstream> · <n> ahead"
+ * ("tracks <upstream>" while the upstream still exists).
+ */
+export function describeBranchDetails(details: BranchDetails, now: Date): string {
+	return [
+		details.subject,
+		details.author,
+		describeRelativeDate(details.committedAt, now),
+		details.upstream ? `${details.upstreamGone ? 'was' : 'tracks'} ${details.upstream}` : undefined,
+		details.ahead ? `${details.ahead} ahead` : undefined,
+	]
+		.filter(Boolean)
+		.join(' · ');
+}
@@ -0,0 +1,164 @@
+import { BRANCH_REFS_FORMAT, parseBranchRefs } from './branch-list';
+import type { RunGit } from './default-branch';
+
+export type BranchHealthGroup = 'gone' | 'merged' | 'stale' | 'local-only' | 'active';
+
+export type BranchHealth = {
+	readonly name: string;
+	readonly group: BranchHealthGroup;
+	readonly lastCommit: Date;
+	/** Short upstream name (e.g. "origin/feature/x"), if one is configured. */
+	readonly upstream?: string;
+	readonly upstreamRemote?: string;
+	/** Human-readable tracking status, e.g. "ahead 1, behind 2", "upstream gone", "no upstream". */
+	readonly tracking: string;
+	readonly isHead: boolean;
+};
+
+export const BRANCH_HEALTH_GROUPS: readonly BranchHealthGroup[] = ['gone', 'merged', 'stale', 'local-only', 'active'];
+
+export const BRANCH_HEALTH_GROUP_LABELS: Record<BranchHealthGroup, string> = {
+	gone: 'Gone upstream',
+	merged: 'Merged',
+	stale: 'Stale',
+	'local-only': 'Local-only',
+	active: 'Active',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * `git for-each-ref` format over refs/heads and refs/remotes: the BranchRef fields (tracking state
+ * included), then tip SHA, committer date (unix seconds) and upstream remote name.
+ */
+export const BRANCH_HEALTH_FORMAT = `${BRANCH_REFS_FORMAT}%00%(objectname)%00%(committerdate:unix)%00%(upstream:remotename)`;
+
+/** Number of BRANCH_REFS_FORMAT fields that precede the health fields. */
+const BRANCH_REF_FIELDS = 6;
+
+/**
+ * Formats a date as "YYYY-MM-DD" (UTC).
+ */
+export function formatCommitDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+function describeTracking(ahead: number, behind: number): string {
+	if (ahead === 0 && behind === 0) {
+		return 'up to date';
+	}
+	return [ahead > 0 ? `ahead ${ahead}` : '', behind > 0 ? `behind ${behind}` : ''].filter(Boolean).join(', ');
+}
+
+/**
+ * Classifies every local branch into a single health group, in priority order:
+ * gone upstream, merged into the default branch, stale, local-only (no upstream), active.
+ * The default branch itself, and branches still at its tip (no commits of their own yet), are
+ * never reported as merged. Everything but the merged list comes from one `git for-each-ref` call.
+ */
+export async function collectBranchHealth(
+	runGit: RunGit,
+	options: {
+		readonly now: Date;
+		readonly staleAfterDays: number;
+		/** Remote-tracking ref of the default branch, e.g. "origin/main". */
+		readonly defaultRef?: string;
+		readonly defaultBranchName?: string;
+	}
+): Promise<BranchHealth[]> {
+	const rows = (await runGit(['for-each-ref', BRANCH_HEALTH_FORMAT, 'refs/heads', 'refs/remotes'])).stdout
+		.split(/\r?\n/)
+		.flatMap((line) => {
+			const [ref] = parseBranchRefs(line);
+			const [tip = '', committedAt = '', upstreamRemote = ''] = line.split('\0').slice(BRANCH_REF_FIELDS);
+			return ref ? [{ ref, tip, committedAt, upstreamRemote }] : [];
+		});
+	const defaultTip = rows.find(({ ref }) => ref.isRemote && ref.name === options.defaultRef)?.tip;
+
+	const merged = new Set<string>();
+	if (options.defaultRef) {
+		const mergedOutput = (
+			await runGit(['for-each-ref', '--merged', options.defaultRef, '--format=%(refname:lstrip=2)', 'refs/heads'])
+		).stdout;
+		mergedOutput
+			.split(/\r?\n/)
+			.map((name) => name.trim())
+			.filter(Boolean)
+			.forEach((name) => merged.add(name));
+	}
+
+	const branches: BranchHealth[] = [];
+	for (const { ref, tip, committedAt, upstreamRemote } of rows) {
+		if (ref.isRemote) {
+			continue;
+		}
+		const lastCommit = new Date(Number(committedAt) * 1000);
+		const isMerged = merged.has(ref.name) && ref.name !== options.defaultBranchName && tip !== defaultTip;
+		const isStale = (options.now.getTime() - lastCommit.getTime()) / DAY_MS >= options.staleAfterDays;
+
+		let group: BranchHealthGroup;
+		if (ref.upstreamGone) {
+			group = 'gone';
+		} else if (isMerged) {
+			group = 'merged';
+		} else if (isStale) {
+			group = 'stale';
+		} else if (!ref.upstream) {
+			group = 'local-only';
+		} else {
+			group = 'active';
+		}
+
+		let tracking: string;
+		if (ref.upstreamGone) {
+			tracking = 'upstream gone';
+		} else if (!ref.upstream) {
+			tracking = 'no upstream';
+		} else {
+			tracking = `${ref.upstream}: ${describeTracking(ref.ahead ?? 0, ref.behind ?? 0)}`;
+		}
+
+		branches.push({
+			name: ref.name,
+			group,
+			lastCommit,
+			upstream: ref.upstream,
+			upstreamRemote: upstreamRemote || undefined,
+			tracking,
+			isHead: ref.isCurrent,
+		});
+	}
+
+	return branches;
+}
+
+/**
+ * Converts a remote URL (HTTPS, SCP-like SSH or ssh://) into a web URL showing the branch.
+ * Returns undefined for URLs that do not look like a hosted repository (e.g. local paths).
+ */
+export function toBranchWebUrl(remoteUrl: string, branch: string): string | undefined {
+	const trimmed = remoteUrl.trim();
+	let host: string;
+	let repoPath: string;
+
+	const scpLike = trimmed.match(/^(?:[^@/]+@)?([^:/\\]{2,}):(?!\/)(.+)$/);
+	const urlLike = trimmed.match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/);
+	if (urlLike) {
+		[, host, repoPath] = urlLike;
+	} else if (scpLike) {
+		[, host, repoPath] = scpLike;
+	} else {
+		return undefined;
+	}
+
+	repoPath = repoPath.replace(/\.git$/, '').replace(/\/+$/, '');
+	const encodedBranch = branch.split('/').map(encodeURIComponent).join('/');
+	const base = `https://${host}/${repoPath}`;
+	if (host.includes('gitlab')) {
+		return `${base}/-/tree/${encodedBranch}`;
+	}
+	if (host.includes('bitbucket')) {
+		return `${base}/branch/${encodedBranch}`;
+	}
+	return `${base}/tree/${encodedBranch}`;
+}
@@ -1,48 +1,94 @@
+import type { RunGit } from './default-branch';
+
 export type BranchItem = {
 	readonly label: string;
 	readonly ref: string;
 	readonly isRemote: boolean;
 };
 
+/** A local or remote-tracking branch as listed by `git for-each-ref`. */
+export type BranchRef = {
+	/** Short name: "feature/x" for a local branch, "origin/feature/x" for a remote-tracking one. */
+	readonly name: string;
+	readonly isRemote: boolean;
+	/** Checked out in the current worktree. */
+	readonly isCurrent: boolean;
+	/** Upstream of a local branch, e.g. "origin/feature/x"; still set after the remote branch is deleted. */
+	readonly upstream?: string;
+	/** The upstream is configured but no longer exists. */
+	readonly upstreamGone: boolean;
+	/** Commits not on the upstream; undefined when there is no upstream or it is gone. */
+	readonly ahead?: number;
+	/** Upstream commits not on the branch; undefined when there is no upstream or it is gone. */
+	readonly behind?: number;
+	/** Worktree the branch is checked out in (the current one included). */
+	readonly worktreePath?: string;
+};
+
 /**
- * Parses `git branch -a` output into local and remote branch items.
- * Local branches: "  feature/foo" or "* main"
- * Remote branches: "  remotes/origin/feature/bar"
+ * `git for-each-ref` format for BranchRef: full ref name, HEAD marker, symref target, upstream,
+ * tracking state and worktree path, separated by NUL. Unlike `git branch -vv`, these fields are
+ * never translated or mixed with commit subjects.
  */
-export function parseBranches(branchOutput: string): BranchItem[] {
-	const lines = branchOutput
-		.split('\n')
-		.map((line) => line.trim())
-		.filter((line) => line.length > 0 && !line.startsWith('('));
-
-	const items: BranchItem[] = [];
-
-	for (const line of lines) {
-		const isCurrent = line.startsWith('*');
-		const name = line.replace(/^\*\s+/, '').trim();
-		if (!name || name === 'HEAD') {
+export const BRANCH_REFS_FORMAT =
+	'--format=%(refname)%00%(HEAD)%00%(symref)%00%(upstream:short)%00%(upstream:track,nobracket)%00%(worktreepath)';
+
+const LOCAL_PREFIX = 'refs/heads/';
+const REMOTE_PREFIX = 'refs/remotes/';
+
+/**
+ * Parses `git for-each-ref` output produced with BRANCH_REFS_FORMAT. Symbolic refs such as
+ * "origin/HEAD" and refs outside refs/heads and refs/remotes are skipped.
+ */
+export function parseBranchRefs(output: string): BranchRef[] {
+	const refs: BranchRef[] = [];
+	for (const line of output.split(/\r?\n/)) {
+		const [refname = '', head, symref, upstream, track, worktreePath] = line.split('\0');
+		const isRemote = refname.startsWith(REMOTE_PREFIX);
+		if ((!isRemote && !refname.startsWith(LOCAL_PREFIX)) || symref) {
 			continue;
 		}
-
-		if (name.startsWith('remotes/')) {
-			const shortName = name.replace(/^remotes\//, '');
-			if (shortName.endsWith('/HEAD') || shortName.includes(' -> ')) {
-				continue;
-			}
-			items.push({
-				label: shortName,
-				ref: shortName,
-				isRemote: true,
-			});
-		} else if (!isCurrent) {
-			/* Exclude the current branch (line starting with *) so it cannot be selected for checkout */
-			items.push({
-				label: name,
-				ref: name,
-				isRemote: false,
-			});
+		const name = refname.slice(isRemote ? REMOTE_PREFIX.length : LOCAL_PREFIX.length);
+		if (!name) {
+			continue;
 		}
+		const tracked = Boolean(upstream) && track !== 'gone';
+		refs.push({
+			name,
+			isRemote,
+			isCurrent: head === '*',
+			upstream: upstream || undefined,
+			upstreamGone: Boolean(upstream) && track === 'gone',
+			ahead: tracked ? Number(track?.match(/\bahead (\d+)/)?.[1] ?? 0) : undefined,
+			behind: tracked ? Number(track?.match(/\bbehind (\d+)/)?.[1] ?? 0) : undefined,
+			worktreePath: worktreePath || undefined,
+		});
 	}
+	return refs;
+}
 
-	return items;
+/**
+ * Lists branches with a single `git for-each-ref` call; local branches only by default.
+ */
+export async function listBranchRefs(
+	runGit: RunGit,
+	namespaces: readonly string[] = ['refs/heads']
+): Promise<BranchRef[]> {
+	return parseBranchRefs((await runGit(['for-each-ref', BRANCH_REFS_FORMAT, ...namespaces])).stdout);
+}
+
+/**
+ * Names of local branches whose upstream is gone, the current branch included.
+ */
+export function goneBranchNames(refs: readonly BranchRef[]): string[] {
+	return refs.filter((ref) => !ref.isRemote && ref.upstreamGone).map((ref) => ref.name);
+}
+
+/**
+ * Converts refs to checkout items, leaving out the current branch so it cannot be selected.
+ */
+export function toBranchItems(refs: readonly BranchRef[]): BranchItem[] {
+	return refs
+		.filter((ref) => !ref.isCurrent)
+		.map((ref) => ({ label: ref.name, ref: ref.name, isRemote: ref.isRemote }));
 }
@@ -0,0 +1,98 @@
+export type RunGit = (args: string[]) => Promise<{ stdout: string; stderr: string }>;
+
+export type DefaultBranch = {
+	/** Remote name, e.g. "origin". */
+	readonly remote: string;
+	/** Branch name on the remote, e.g. "main". */
+	readonly name: string;
+};
+
+export type DefaultBranchOptions = {
+	/** Remote to use before any other (the gitSweepPro.preferredRemote setting); empty for automatic. */
+	readonly preferredRemote?: string;
+	/**
+	 * Ask the server with `git remote set-head --auto` when the chosen remote has no HEAD ref.
+	 * Only for explicit online workflows that have just fetched; otherwise only local refs are read.
+	 */
+	readonly queryRemote?: boolean;
+};
+
+const HEAD_REF_PATTERN = /^refs\/remotes\/([^/]+)\/HEAD$/;
+
+async function readHeadRef(runGit: RunGit, remote: string): Promise<DefaultBranch | undefined> {
+	const r = await runGit(['rev-parse', '--abbrev-ref', `refs/remotes/${remote}/HEAD`]);
+	const out = r.stdout.trim();
+	const prefix = `${remote}/`;
+	return out.startsWith(prefix) ? { remote, name: out.slice(prefix.length) } : undefined;
+}
+
+/**
+ * Returns the upstream remote of the checked-out branch, if it has one.
+ */
+async function getCurrentUpstreamRemote(runGit: RunGit): Promise<string | undefined> {
+	const output = (await runGit(['for-each-ref', '--format=%(HEAD)%(upstream:remotename)', 'refs/heads'])).stdout;
+	const remote = output
+		.split(/\r?\n/)
+		.find((line) => line.startsWith('*'))
+		?.slice(1)
+		.trim();
+	return remote || undefined;
+}
+
+/**
+ * Returns the default branch (remote and name), or undefined.
+ * Remotes are tried in order: the preferred remote, the current branch's upstream remote,
+ * then any remote with a HEAD ref. When the chosen remote has no HEAD ref yet and `queryRemote`
+ * is set, `git remote set-head <remote> --auto` asks the server for it.
+ */
+export async function resolveDefaultBranch(
+	runGit: RunGit,
+	options: DefaultBranchOptions = {}
+): Promise<DefaultBranch | undefined> {
+	try {
+		const list = await runGit(['for-each-ref', '--format=%(refname)', 'refs/remotes/*/HEAD']);
+		const remotesWithHead = list.stdout
+			.trim()
+			.split(/\r?\n/)
+			.map((ref) => ref.match(HEAD_REF_PATTERN)?.[1])
+			.filter((remote): remote is string => Boolean(remote));
+
+		const preferred = options.preferredRemote || (await getCurrentUpstreamRemote(runGit));
+		if (preferred) {
+			if (options.queryRemote && !remotesWithHead.includes(preferred)) {
+				try {
+					await runGit(['remote', 'set-head', preferred, '--auto']);
+				} catch {
+					/* Unknown remote or offline: fall back to the remotes that already have a HEAD ref */
+				}
+			}
+			const resolved = await readHeadRef(runGit, preferred).catch(() => undefined);
+			if (resolved) {
+				return resolved;
+			}
+		}
+
+		if (remotesWithHead.length > 0) {
+			return await readHeadRef(runGit, remotesWithHead[0]);
+		}
+
+		if (!options.queryRemote) {
+			return undefined;
+		}
+		const firstRemote = (await runGit(['remote'])).stdout.split(/\r?\n/).map((r) => r.trim()).find(Boolean);
+		if (!firstRemote || firstRemote === preferred) {
+			return undefined;
+		}
+		await runGit(['remote', 'set-head', firstRemote, '--auto']);
+		return await readHeadRef(runGit, firstRemote);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Returns the default branch name (e.g. "main"), or undefined. See resolveDefaultBranch.
+ */
+export async function getDefaultBranchName(runGit: RunGit, options: DefaultBranchOptions = {}): Promise<string | undefined> {
+	return (await resolveDefaultBranch(runGit, options))?.name;
+}
@@ -0,0 +1,114 @@
+import * as path from 'path';
+import type { RunGit } from './default-branch';
+
+export type DeletionMode = 'safe' | 'force';
+
+export type DeletionJournalEntry = {
+	readonly branch: string;
+	readonly sha: string;
+	readonly upstreamRemote?: string;
+	readonly upstreamMerge?: string;
+	/** ISO 8601 timestamp of the deletion. */
+	readonly deletedAt: string;
+	readonly mode: DeletionMode;
+};
+
+/**
+ * Minimal subset of vscode.Memento used to persist the journal.
+ */
+export type MementoLike = {
+	get<T>(key: string): T | undefined;
+	update(key: string, value: unknown): PromiseLike<void>;
+};
+
+export type DeletionJournal = {
+	list: (repoRoot: string) => readonly DeletionJournalEntry[];
+	record: (repoRoot: string, entries: readonly DeletionJournalEntry[]) => PromiseLike<void>;
+	remove: (repoRoot: string, entry: DeletionJournalEntry) => PromiseLike<void>;
+};
+
+export type BranchTip = {
+	readonly branch: string;
+	readonly sha: string;
+	readonly upstreamRemote?: string;
+	readonly upstreamMerge?: string;
+};
+
+const JOURNAL_KEY_PREFIX = 'gitSweepPro.deletionJournal:';
+const DEFAULT_MAX_ENTRIES = 200;
+
+/**
+ * `git for-each-ref` format used to snapshot branch tips before deletion.
+ * Fields are NUL-separated: name, tip SHA, upstream remote, upstream merge ref. The name is
+ * `lstrip=2` because `:short` yields "heads/<name>" when a tag has the same name.
+ */
+export const BRANCH_TIP_FORMAT = '--format=%(refname:lstrip=2)%00%(objectname)%00%(upstream:remotename)%00%(upstream:remoteref)';
+
+/**
+ * Parses `git for-each-ref` output produced with BRANCH_TIP_FORMAT into a map keyed by branch name.
+ */
+export function parseBranchTips(output: string): Map<string, BranchTip> {
+	const tips = new Map<string, BranchTip>();
+	for (const line of output.split(/\r?\n/)) {
+		const [branch, sha, upstreamRemote, upstreamMerge] = line.split('\0');
+		if (!branch || !sha) {
+			continue;
+		}
+		tips.set(branch, {
+			branch,
+			sha,
+			upstreamRemote: upstreamRemote || undefined,
+			upstreamMerge: upstreamMerge || undefined,
+		});
+	}
+	return tips;
+}
+
+/**
+ * The repository key journal entries are stored under: git's common directory, which is the
+ * same whether the repository is opened at its root, a subfolder or a linked worktree.
+ */
+export async function resolveJournalKey(runGit: RunGit, repoRoot: string): Promise<string> {
+	const commonDir = (await runGit(['rev-parse', '--git-common-dir'])).stdout.trim();
+	return path.resolve(repoRoot, commonDir);
+}
+
+export function toJournalEntry(tip: BranchTip, mode: DeletionMode, deletedAt: Date): DeletionJournalEntry {
+	return {
+		branch: tip.branch,
+		sha: tip.sha,
+		upstreamRemote: tip.upstreamRemote,
+		upstreamMerge: tip.upstreamMerge,
+		deletedAt: deletedAt.toISOString(),
+		mode,
+	};
+}
+
+function isSameEntry(a: DeletionJournalEntry, b: DeletionJournalEntry): boolean {
+	return a.branch === b.branch && a.sha === b.sha && a.deletedAt === b.deletedAt;
+}
+
+/**
+ * Creates a journal that stores deleted branches per repository root.
+ * Entries are kept newest first and capped at maxEntries per repository.
+ */
+export function createDeletionJournal(memento: MementoLike, maxEntries = DEFAULT_MAX_ENTRIES): DeletionJournal {
+	const keyFor = (repoRoot: string) => `${JOURNAL_KEY_PREFIX}${repoRoot}`;
+	const list = (repoRoot: string) => memento.get<DeletionJournalEntry[]>(keyFor(repoRoot)) ?? [];
+
+	return {
+		list,
+		record: (repoRoot, entries) => {
+			if (entries.length === 0) {
+				return Promise.resolve();
+			}
+			const newestFirst = [...entries].reverse();
+			return memento.update(keyFor(repoRoot), [...newestFirst, ...list(repoRoot)].slice(0, maxEntries));
+		},
+		remove: (repoRoot, entry) =>
+			memento.update(
+				keyFor(repoRoot),
+				list(repoRoot).filter((e) => !isSameEntry(e, entry))
+			),
+	};
+}
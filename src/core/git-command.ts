@@ -33,9 +33,54 @@ export type CommandResult = {
 export type ExecFileFn = (
 	file: string,
 	args: string[],
-	options: { cwd: string }
+	options: { cwd: string; env?: NodeJS.ProcessEnv; signal?: AbortSignal; timeout?: number }
 ) => Promise<{ stdout: string; stderr: string }>;
 
+/**
+ * Git runs in the C locale so its messages stay English: classifyGitError and the output
+ * parsers match on git's wording, which is translated when the user's locale is not English.
+ */
+const GIT_ENV: NodeJS.ProcessEnv = { LC_ALL: 'C', LANGUAGE: 'C' };
+
+export type GitCommandOptions = {
+	/** Aborting kills the running git process; the command then rejects with an AbortError. */
+	readonly signal?: AbortSignal;
+	/** Kills git after this many milliseconds and rejects with a GitTimeoutError; 0 waits indefinitely. */
+	readonly timeoutMs?: number;
+	/** Extra attempts after a timeout. Other failures are never retried. */
+	readonly retries?: number;
+};
+
+/**
+ * Thrown when git was killed because it exceeded GitCommandOptions.timeoutMs on every attempt.
+ */
+export class GitTimeoutError extends Error {
+	constructor(
+		/** Display form of the command, e.g. "git fetch -p". */
+		readonly command: string,
+		readonly timeoutMs: number
+	) {
+		super(`${command} timed out after ${Math.round(timeoutMs / 1000)} s`);
+		this.name = 'GitTimeoutError';
+	}
+}
+
+/** Read-only commands that talk to a remote and may hang on an unreachable host. */
+export function isNetworkCommand(args: readonly string[]): boolean {
+	return (
+		args[0] === 'fetch' ||
+		args[0] === 'ls-remote' ||
+		(args[0] === 'remote' && args[1] === 'set-head' && args.includes('--auto'))
+	);
+}
+
+/**
+ * True when a git command was stopped through its AbortSignal rather than failing on its own.
+ */
+export function isCancellationError(error: unknown): boolean {
+	return error instanceof Error && error.name === 'AbortError';
+}
+
 export type OutputWriter = {
 	appendLine: (line: string) => void;
 };
@@ -49,32 +94,162 @@ export async function runGitCommand(
 	args: string[],
 	cwd: string,
 	outputChannel: OutputWriter,
-	execFn: ExecFileFn = execFileAsync
+	execFn: ExecFileFn = execFileAsync,
+	options: GitCommandOptions = {}
 ): Promise<CommandResult> {
 	const displayCmd = buildDisplayCmd(args);
+	const timeoutMs = options.timeoutMs ?? 0;
+	const attempts = timeoutMs > 0 ? 1 + Math.max(0, options.retries ?? 0) : 1;
 	outputChannel.appendLine(`$ ${displayCmd}`);
-	try {
-		const result = await execFn('git', args, { cwd });
-		if (result.stdout.trim()) {
-			outputChannel.appendLine(result.stdout.trim());
-		}
-		if (result.stderr.trim()) {
-			outputChannel.appendLine(`[stderr] ${result.stderr.trim()}`);
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const result = await execFn('git', args, {
+				cwd,
+				env: { ...process.env, ...GIT_ENV },
+				...(options.signal ? { signal: options.signal } : {}),
+				...(timeoutMs > 0 ? { timeout: timeoutMs } : {}),
+			});
+			if (result.stdout.trim()) {
+				outputChannel.appendLine(result.stdout.trim());
+			}
+			if (result.stderr.trim()) {
+				outputChannel.appendLine(`[stderr] ${result.stderr.trim()}`);
+			}
+
+			return {
+				stdout: result.stdout,
+				stderr: result.stderr,
+			};
+		} catch (error) {
+			if (isCancellationError(error)) {
+				outputChannel.appendLine(`[cancelled] ${displayCmd}`);
+				throw error;
+			}
+			const execError = error as Error & { stdout?: string; stderr?: string; killed?: boolean };
+			if (timeoutMs > 0 && execError.killed) {
+				outputChannel.appendLine(`[timeout] ${displayCmd}: no response after ${Math.round(timeoutMs / 1000)} s`);
+				if (attempt < attempts) {
+					outputChannel.appendLine(`[retry] ${displayCmd} (attempt ${attempt + 1}/${attempts})`);
+					continue;
+				}
+				throw new GitTimeoutError(displayCmd, timeoutMs);
+			}
+			if (execError.stdout?.trim()) {
+				outputChannel.appendLine(execError.stdout.trim());
+			}
+			if (execError.stderr?.trim()) {
+				outputChannel.appendLine(`[stderr] ${execError.stderr.trim()}`);
+			}
+			outputChannel.appendLine(`[error] ${execError.message}`);
+			throw execError;
 		}
+	}
+}
+
+export type GitErrorCategory =
+	| 'not-a-repository'
+	| 'git-missing'
+	| 'auth-failed'
+	| 'network'
+	| 'lock-file'
+	| 'not-fully-merged'
+	| 'checked-out-elsewhere'
+	| 'permission-denied'
+	| 'timeout'
+	| 'cancelled'
+	| 'unknown';
+
+export type GitErrorInfo = {
+	readonly category: GitErrorCategory;
+	/** What went wrong, in one sentence. For "unknown" this is git's own message. */
+	readonly message: string;
+	/** What the user can do about it, when there is something specific. */
+	readonly suggestion?: string;
+};
 
+/** Checked in order: auth before network and permission, since ssh reports "Permission denied (publickey)". */
+const GIT_ERROR_PATTERNS: ReadonlyArray<{ readonly pattern: RegExp } & GitErrorInfo> = [
+	{
+		category: 'not-a-repository',
+		pattern: /not a git repository/i,
+		message: 'The selected workspace folder is not a Git repository.',
+	},
+	{
+		category: 'auth-failed',
+		pattern:
+			/authentication failed|permission denied \(publickey|could not read username|terminal prompts disabled|invalid username or password|http(?:s)? (?:code |status )?40[13]|returned error: 40[13]/i,
+		message: 'The remote rejected your credentials.',
+		suggestion: 'Sign in again (credential helper, token or SSH key) and retry.',
+	},
+	{
+		category: 'network',
+		pattern:
+			/could not resolve host|unable to access|failed to connect|connection (?:timed out|refused|reset)|network is unreachable|could not read from remote repository/i,
+		message: 'Could not reach the remote.',
+		suggestion: 'Check your network connection and that the remote URL is correct.',
+	},
+	{
+		category: 'lock-file',
+		pattern: /\.lock'?: file exists|unable to create '[^']*\.lock'/i,
+		message: 'Another git process is using this repository (a .lock file exists).',
+		suggestion: 'Wait for it to finish. If no git process is running, delete the .lock file named in the "Git Sweep" output.',
+	},
+	{
+		category: 'not-fully-merged',
+		pattern: /not fully merged/i,
+		message: 'The branch is not fully merged.',
+		suggestion: 'Force delete it (-D) if you no longer need its commits.',
+	},
+	{
+		category: 'checked-out-elsewhere',
+		pattern: /checked out at|used by worktree at/i,
+		message: 'The branch is checked out in another worktree.',
+		suggestion: 'Switch that worktree to another branch or remove the worktree first.',
+	},
+	{
+		category: 'permission-denied',
+		pattern: /permission denied|operation not permitted|read-only file system/i,
+		message: 'Git was denied access to a file in the repository.',
+		suggestion: 'Check the file permissions of the repository folder.',
+	},
+];
+
+/**
+ * Classifies a failed git command from its exit code and stderr, so workflows can show one
+ * consistent, tailored message per kind of failure instead of matching strings themselves.
+ */
+export function classifyGitError(error: unknown): GitErrorInfo {
+	if (isCancellationError(error)) {
+		return { category: 'cancelled', message: 'The operation was cancelled.' };
+	}
+	if (error instanceof GitTimeoutError) {
 		return {
-			stdout: result.stdout,
-			stderr: result.stderr,
+			category: 'timeout',
+			message: `"${error.command}" timed out after ${Math.round(error.timeoutMs / 1000)} s.`,
+			suggestion: 'Check that the remote is reachable or raise "gitSweepPro.fetchTimeoutSeconds".',
 		};
-	} catch (error) {
-		const execError = error as Error & { stdout?: string; stderr?: string };
-		if (execError.stdout?.trim()) {
-			outputChannel.appendLine(execError.stdout.trim());
-		}
-		if (execError.stderr?.trim()) {
-			outputChannel.appendLine(`[stderr] ${execError.stderr.trim()}`);
-		}
-		outputChannel.appendLine(`[error] ${execError.message}`);
-		throw execError;
 	}
+
+	const execError = error as { code?: unknown; stderr?: unknown; message?: unknown } | undefined;
+	const message = error instanceof Error ? error.message : String(error);
+	const text = [typeof execError?.stderr === 'string' ? execError.stderr : '', message].join('\n');
+	if (execError?.code === 'ENOENT' || /command not found|enoent/i.test(text)) {
+		return { category: 'git-missing', message: 'Git is not installed or not available in PATH.' };
+	}
+	const match = GIT_ERROR_PATTERNS.find(({ pattern }) => pattern.test(text));
+	return match
+		? { category: match.category, message: match.message, suggestion: match.suggestion }
+		: { category: 'unknown', message };
+}
+
+/**
+ * Notification text for a classified failure: "Git Sweep Pro: <message> <suggestion>",
+ * or "Git Sweep Pro failed: <git message>" when the failure is not recognised.
+ */
+export function formatGitError(info: GitErrorInfo): string {
+	if (info.category === 'unknown') {
+		return `Git Sweep Pro failed: ${info.message}`;
+	}
+	return `Git Sweep Pro: ${[info.message, info.suggestion].filter(Boolean).join(' ')}`;
 }
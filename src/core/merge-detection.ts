@@ -0,0 +1,124 @@
+import type { RunGit } from './default-branch';
+
+export type DetectionReason = 'gone' | 'merged' | 'squash-merged' | 'rebase-merged' | 'stale';
+
+export type SweepCandidate = {
+	readonly branch: string;
+	readonly reason: DetectionReason;
+	/** Extra context appended to the quick-pick description (e.g. age and author). */
+	readonly details?: string;
+	/** Path of another worktree that has this branch checked out. */
+	readonly worktreePath?: string;
+};
+
+type LocalBranch = {
+	readonly name: string;
+	readonly sha: string;
+	readonly isHead: boolean;
+};
+
+/**
+ * `git for-each-ref` format for local branches: name, tip SHA and "*" for the checked-out branch.
+ */
+export const LOCAL_BRANCH_FORMAT = '--format=%(refname:lstrip=2)%00%(objectname)%00%(HEAD)';
+
+export function describeDetectionReason(reason: DetectionReason, defaultBranch?: string): string {
+	const target = defaultBranch ?? 'default branch';
+	switch (reason) {
+		case 'gone':
+			return 'upstream gone';
+		case 'merged':
+			return `merged into ${target}`;
+		case 'squash-merged':
+			return `squash-merged into ${target}`;
+		case 'rebase-merged':
+			return `rebase-merged into ${target}`;
+		case 'stale':
+			return 'stale';
+	}
+}
+
+function parseLocalBranches(output: string): LocalBranch[] {
+	return output
+		.split(/\r?\n/)
+		.map((line) => line.split('\0'))
+		.filter(([name, sha]) => Boolean(name) && Boolean(sha))
+		.map(([name, sha, head]) => ({ name, sha, isHead: head === '*' }));
+}
+
+export type MergeDetectionOptions = {
+	/** Skip squash-merge detection, the only check that writes to the repository (`git commit-tree`). */
+	readonly skipSquash?: boolean;
+};
+
+/**
+ * Decides whether a branch's changes are already present in baseRef.
+ * - merged: the branch tip is an ancestor of baseRef.
+ * - rebase-merged: every commit has an equivalent patch-id in baseRef (`git cherry` marks all with "-").
+ * - squash-merged: a single synthetic commit holding the branch's cumulative diff since the merge base
+ *   has an equivalent patch-id in baseRef. The synthetic commit is never referenced, so git gc drops it.
+ */
+async function detectMergeReason(
+	runGit: RunGit,
+	baseRef: string,
+	branch: LocalBranch,
+	options: MergeDetectionOptions
+): Promise<DetectionReason | undefined> {
+	const mergeBase = (await runGit(['merge-base', baseRef, branch.sha])).stdout.trim();
+	if (!mergeBase) {
+		return undefined;
+	}
+	if (mergeBase === branch.sha) {
+		return 'merged';
+	}
+
+	const cherryLines = (await runGit(['cherry', baseRef, branch.sha, mergeBase])).stdout
+		.split(/\r?\n/)
+		.filter((line) => line.trim().length > 0);
+	if (cherryLines.length > 0 && cherryLines.every((line) => line.startsWith('-'))) {
+		return 'rebase-merged';
+	}
+	if (options.skipSquash) {
+		return undefined;
+	}
+
+	const squashCommit = (
+		await runGit(['commit-tree', `${branch.sha}^{tree}`, '-p', mergeBase, '-m', 'git-sweep-pro squash check'])
+	).stdout.trim();
+	if (!squashCommit) {
+		return undefined;
+	}
+	const squashCherry = (await runGit(['cherry', baseRef, squashCommit])).stdout.trim();
+	return squashCherry.startsWith('-') ? 'squash-merged' : undefined;
+}
+
+/**
+ * Finds local branches whose changes are already fully present in baseRef (e.g. "origin/main").
+ * The checked-out branch and branches listed in `exclude` are never inspected.
+ * Branches that cannot be compared (e.g. no common history) are skipped.
+ */
+export async function detectMergedBranches(
+	runGit: RunGit,
+	baseRef: string,
+	exclude: ReadonlySet<string>,
+	options: MergeDetectionOptions = {}
+): Promise<SweepCandidate[]> {
+	const branches = parseLocalBranches((await runGit(['for-each-ref', LOCAL_BRANCH_FORMAT, 'refs/heads'])).stdout);
+	const candidates: SweepCandidate[] = [];
+
+	for (const branch of branches) {
+		if (branch.isHead || exclude.has(branch.name)) {
+			continue;
+		}
+		try {
+			const reason = await detectMergeReason(runGit, baseRef, branch, options);
+			if (reason) {
+				candidates.push({ branch: branch.name, reason });
+			}
+		} catch {
+			/* Unrelated histories or unreadable refs: not a candidate */
+		}
+	}
+
+	return candidates;
+}
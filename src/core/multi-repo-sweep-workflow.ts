@@ -0,0 +1,295 @@
+import * as path from 'node:path';
+import { loadBranchDetails } from './branch-details';
+import { classifyGitError, formatGitError, isCancellationError } from './git-command';
+import type { SweepCandidate } from './merge-detection';
+import { fetchAndPruneRemotes } from './remote-fetch';
+import { readSweepSettings } from './settings';
+import { OFFLINE_WARNING, type SweepMode } from './sweep-logic';
+import { createSweepReportRecorder, describeSweepMode } from './sweep-report';
+import {
+	candidateItemButtons,
+	collectSweepCandidates,
+	deleteBranches,
+	describeSkipped,
+	normalizeQuickPickSelection,
+	showCandidateContext,
+	toCandidateQuickPickItem,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from './sweep-workflow';
+
+export type MultiRepoSweepDeps = SweepWorkflowDeps & {
+	/** File-system paths of every workspace folder. */
+	readonly getWorkspaceFolders: () => readonly string[];
+};
+
+type RepoCandidate = SweepCandidate & {
+	readonly repoRoot: string;
+};
+
+/**
+ * Display name for a repository: its folder name, suffixed with the parent folder
+ * when two repositories share the same folder name.
+ */
+function repoLabel(repoRoot: string, allRoots: readonly string[]): string {
+	const name = path.basename(repoRoot);
+	const duplicates = allRoots.filter((r) => path.basename(r) === name).length;
+	return duplicates > 1 ? `${name} (${path.basename(path.dirname(repoRoot))})` : name;
+}
+
+/**
+ * Parses `git submodule status --recursive` output into absolute paths of initialized submodules.
+ * Lines look like " <sha> <path> (<describe>)"; a leading "-" marks an uninitialized submodule.
+ */
+export function parseSubmodulePaths(statusOutput: string, repoRoot: string): string[] {
+	return statusOutput
+		.split(/\r?\n/)
+		.filter((line) => line.trim().length > 0 && !line.startsWith('-'))
+		.map((line) => line.slice(1).trim().match(/^\S+\s+(.+?)(?:\s+\(.*\))?$/)?.[1])
+		.filter((relative): relative is string => Boolean(relative))
+		.map((relative) => path.join(repoRoot, relative));
+}
+
+/**
+ * Resolves the git repository of every workspace folder (deduplicated by top-level path),
+ * optionally adding their initialized submodules. Folders that are not repositories are logged and skipped.
+ */
+export async function discoverRepositories(
+	folders: readonly string[],
+	includeSubmodules: boolean,
+	deps: Pick<SweepWorkflowDeps, 'runGitCommand' | 'output'>
+): Promise<string[]> {
+	const roots: string[] = [];
+	const add = (root: string) => {
+		if (!roots.includes(root)) {
+			roots.push(root);
+		}
+	};
+
+	for (const folder of folders) {
+		try {
+			const topLevel = (await deps.runGitCommand(['rev-parse', '--show-toplevel'], folder)).stdout.trim();
+			if (!topLevel) {
+				continue;
+			}
+			const root = path.normalize(topLevel);
+			add(root);
+			if (includeSubmodules) {
+				const status = await deps.runGitCommand(['submodule', 'status', '--recursive'], root);
+				parseSubmodulePaths(status.stdout, root).forEach(add);
+			}
+		} catch {
+			deps.output.appendLine(`[skipped] ${folder}: not a Git repository`);
+		}
+	}
+
+	return roots;
+}
+
+/**
+ * Sweeps every repository of a multi-root workspace in one pass: repositories are fetched in
+ * parallel, then all candidates are offered in a single quick pick grouped by repository.
+ */
+export async function runMultiRepoSweepWorkflow(mode: SweepMode, deps: MultiRepoSweepDeps): Promise<void> {
+	const folders = deps.getWorkspaceFolders();
+	if (folders.length === 0) {
+		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
+		return;
+	}
+
+	deps.output.show(true);
+	deps.output.appendLine('--- Git Sweep (all repositories) session started ---');
+	deps.output.appendLine(`Mode: ${mode.dryRun ? 'dry-run' : 'delete'}, delete flag: ${mode.forceDelete ? '-D' : '-d'}`);
+	const report = createSweepReportRecorder('all-repositories', describeSweepMode(mode));
+	let reportStarted = false;
+
+	try {
+		const settings = readSweepSettings(deps.config);
+		const discovered = await discoverRepositories(folders, settings.includeSubmodules, deps);
+		if (discovered.length === 0) {
+			deps.ui.showErrorMessage('Git Sweep Pro: No Git repositories found in the workspace.');
+			return;
+		}
+		deps.output.appendLine(`Repositories: ${discovered.join(', ')}`);
+
+		if (mode.offline) {
+			deps.output.appendLine(OFFLINE_WARNING);
+		}
+		const fetchResults: PromiseSettledResult<unknown>[] = mode.offline
+			? discovered.map(() => ({ status: 'fulfilled', value: undefined }))
+			: await deps.ui.withProgress(
+					{ title: `Git Sweep Pro: Fetching and pruning ${discovered.length} repositories...`, cancellable: true },
+					(_progress, signal) =>
+						Promise.allSettled(discovered.map((root) => fetchAndPruneRemotes(root, deps, signal)))
+				);
+		const cancelledFetch = fetchResults.find(
+			(result): result is PromiseRejectedResult => result.status === 'rejected' && isCancellationError(result.reason)
+		);
+		if (cancelledFetch) {
+			throw cancelledFetch.reason;
+		}
+		const repoRoots = discovered.filter((root, i) => {
+			const result = fetchResults[i];
+			if (result.status === 'rejected') {
+				const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+				deps.output.appendLine(`[fetch-failed] ${root}: ${message}`);
+				return false;
+			}
+			return true;
+		});
+
+		const quickPickItems: QuickPickItemLike[] = [];
+		const itemCandidates = new Map<QuickPickItemLike, RepoCandidate>();
+		for (const repoRoot of repoRoots) {
+			const label = repoLabel(repoRoot, repoRoots);
+			const { candidates, defaultBranchName } = await collectSweepCandidates(repoRoot, deps, { fetched: !mode.offline });
+			const details = candidates.length > 0
+				? await loadBranchDetails((args) => deps.runGitCommand(args, repoRoot)).catch(() => undefined)
+				: undefined;
+			const candidateItems = candidates.map((candidate) =>
+				toCandidateQuickPickItem(candidate, defaultBranchName, details?.get(candidate.branch))
+			);
+			report.addCandidates(
+				repoRoot,
+				candidateItems.map((item) => ({ branch: item.label, reason: item.description ?? '' }))
+			);
+			reportStarted = true;
+			if (candidates.length === 0) {
+				continue;
+			}
+			quickPickItems.push({ label, kind: -1 });
+			for (const [i, candidate] of candidates.entries()) {
+				const candidateItem = candidateItems[i];
+				const item: QuickPickItemLike = {
+					...candidateItem,
+					description: `${label} · ${candidateItem.description}`,
+					...candidateItemButtons(deps),
+				};
+				quickPickItems.push(item);
+				itemCandidates.set(item, { ...candidate, repoRoot });
+			}
+		}
+
+		if (itemCandidates.size === 0) {
+			deps.output.appendLine('No stale tracked branches found.');
+			deps.ui.showInformationMessage(
+				fetchResults.some((r) => r.status === 'rejected')
+					? 'Git Sweep Pro: No stale branches found. Some repositories could not be fetched; see "Git Sweep" output.'
+					: 'Git Sweep Pro: No stale branches found.'
+			);
+			return;
+		}
+
+		const selected = await deps.ui.showQuickPick(quickPickItems, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title:
+				(mode.dryRun
+					? 'Git Sweep Pro: Select branches to include in dry run (all repositories)'
+					: 'Git Sweep Pro: Select branches to delete (all repositories)') +
+				(mode.offline ? ' (offline: not fetched, may be stale)' : ''),
+			placeHolder: 'All stale tracked branches are pre-selected. Uncheck any you want to keep.',
+			onDidTriggerItemButton: (item, button) => {
+				const candidate = itemCandidates.get(item);
+				if (candidate) {
+					void showCandidateContext(candidate.repoRoot, candidate.branch, button, deps);
+				}
+			},
+		});
+
+		const selectedCandidates = normalizeQuickPickSelection(selected)
+			.map((item) =>
+				itemCandidates.get(item) ??
+				[...itemCandidates.entries()].find(
+					([candidateItem]) => candidateItem.label === item.label && candidateItem.description === item.description
+				)?.[1]
+			)
+			.filter((candidate): candidate is RepoCandidate => candidate !== undefined);
+
+		if (selectedCandidates.length === 0) {
+			deps.output.appendLine('Operation cancelled or no branches selected.');
+			deps.ui.showInformationMessage('Git Sweep Pro: No branches selected.');
+			return;
+		}
+
+		const byRepo = new Map<string, string[]>();
+		for (const candidate of selectedCandidates) {
+			byRepo.set(candidate.repoRoot, [...(byRepo.get(candidate.repoRoot) ?? []), candidate.branch]);
+		}
+
+		for (const [repoRoot, branches] of byRepo) {
+			report.markSelected(repoRoot, branches);
+		}
+		deps.output.appendLine(`${mode.dryRun ? '[DRY RUN]' : '[DELETE]'} Selected branches:`);
+		for (const [repoRoot, branches] of byRepo) {
+			for (const branch of branches) {
+				deps.output.appendLine(`- ${repoLabel(repoRoot, repoRoots)}: ${branch}`);
+			}
+		}
+
+		if (mode.dryRun) {
+			byRepo.forEach((_branches, repoRoot) => report.markDryRun(repoRoot));
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro (dry run): ${selectedCandidates.length} branch(es) in ${byRepo.size} repositories would be deleted.`
+			);
+			return;
+		}
+
+		let totalDeleted = 0;
+		let totalAttempted = 0;
+		const skipped: string[] = [];
+		const keptInWorktrees: string[] = [];
+		const cancelled: string[] = [];
+		const perRepo: string[] = [];
+		for (const [repoRoot, branches] of byRepo) {
+			if (cancelled.length > 0) {
+				cancelled.push(...branches);
+				report.recordResult(repoRoot, { deleted: [], failed: [], cancelled: branches });
+				continue;
+			}
+			const result = await deleteBranches(repoRoot, branches, mode, deps);
+			report.recordResult(repoRoot, result);
+			cancelled.push(...result.cancelled);
+			const attempted = branches.length - result.skipped.length - result.keptInWorktrees.length;
+			totalDeleted += result.deleted.length;
+			totalAttempted += attempted;
+			skipped.push(...result.skipped);
+			keptInWorktrees.push(...result.keptInWorktrees);
+			const label = repoLabel(repoRoot, repoRoots);
+			perRepo.push(
+				result.failed.length === 0 ? `${label}: ${result.deleted.length}` : `${label}: ${result.deleted.length}/${attempted}`
+			);
+		}
+
+		const skippedSuffix = describeSkipped({ skipped, keptInWorktrees });
+		if (cancelled.length > 0) {
+			deps.output.appendLine(`[cancelled] ${cancelled.length} selected branch(es) were not deleted.`);
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro: Cancelled after deleting ${totalDeleted} branch(es) (${perRepo.join(', ')}); ` +
+					`${cancelled.length} not deleted.${skippedSuffix} See "Git Sweep" output for details.`
+			);
+		} else if (totalDeleted === totalAttempted) {
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro: Deleted ${totalDeleted} branch(es) across ${byRepo.size} repositories (${perRepo.join(', ')}).${skippedSuffix}`
+			);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Deleted ${totalDeleted}/${totalAttempted} branch(es) (${perRepo.join(', ')}).${skippedSuffix} See "Git Sweep" output for details.`
+			);
+		}
+	} catch (error) {
+		const info = classifyGitError(error);
+		if (info.category === 'cancelled') {
+			deps.output.appendLine('Sweep cancelled.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Sweep cancelled. No branches were deleted.');
+		} else {
+			deps.ui.showErrorMessage(formatGitError(info));
+		}
+	} finally {
+		if (reportStarted) {
+			deps.recordReport?.(report.finish());
+		}
+		deps.output.appendLine('--- Git Sweep (all repositories) session ended ---');
+	}
+}
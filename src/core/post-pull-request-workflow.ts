@@ -1,76 +1,48 @@
-import { parseBranches } from './branch-list';
-import { escapeForShell } from './git-command';
-import { parseGoneBranches } from './sweep-logic';
-import { runSweepWorkflow, type QuickPickItemLike, type SweepWorkflowDeps } from './sweep-workflow';
+import { goneBranchNames, listBranchRefs, toBranchItems, type BranchRef } from './branch-list';
+import { resolveDefaultBranch } from './default-branch';
+import { BRANCH_TIP_FORMAT, parseBranchTips, resolveJournalKey, toJournalEntry } from './deletion-journal';
+import { classifyGitError, escapeForShell, formatGitError } from './git-command';
+import { findProtectedPattern } from './protected-branches';
+import { fetchAndPruneRemotes } from './remote-fetch';
+import { readSweepSettings, type PullStrategy } from './settings';
+import { parseAheadBehind } from './stale-detection';
+import { createStashLabel, listUncommittedChanges, reapplyStash, stashChanges } from './stash';
+import {
+	deleteBranches,
+	normalizeQuickPickSelection,
+	runSweepWorkflow,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from './sweep-workflow';
 
 export type PostPullRequestDeps = SweepWorkflowDeps;
 
-/**
- * Returns the default branch name (e.g. "main") from the first remote's HEAD ref, or undefined.
- * Discovers the remote dynamically via refs/remotes/<remote>/HEAD; does not assume "origin".
- */
-async function getDefaultBranchName(runGit: (args: string[]) => Promise<{ stdout: string; stderr: string }>): Promise<string | undefined> {
-	try {
-		const list = await runGit(['for-each-ref', '--format=%(refname)', 'refs/remotes/*/HEAD']);
-		const firstRef = list.stdout.trim().split(/\r?\n/)[0];
-		if (!firstRef) {
-			return undefined;
-		}
-		const match = firstRef.match(/^refs\/remotes\/([^/]+)\/HEAD$/);
-		if (!match) {
-			return undefined;
-		}
-		const remoteName = match[1];
-		const r = await runGit(['rev-parse', '--abbrev-ref', firstRef]);
-		const out = r.stdout.trim();
-		const prefix = `${remoteName}/`;
-		return out.startsWith(prefix) ? out.slice(prefix.length) : undefined;
-	} catch {
-		return undefined;
-	}
-}
+const STASH_CHANGES = 'Stash and re-apply';
+const CARRY_CHANGES = 'Carry changes over';
+const MAX_LISTED_CHANGES = 5;
+const RESET_TO_REMOTE = 'Reset to remote';
+const KEEP_LOCAL = 'Keep local commits';
+
+const PULL_ARGS: Record<Exclude<PullStrategy, 'fetch-only'>, string[]> = {
+	'ff-only': ['pull', '--ff-only'],
+	rebase: ['pull', '--rebase'],
+	merge: ['pull', '--no-rebase', '--ff'],
+};
 
 /**
  * Returns true if the current branch tracks a gone remote.
- * Uses pre-fetched `git branch -avv` output; no internal git calls.
+ * Uses the pre-fetched branch list; no internal git calls.
  */
-function isCurrentBranchGone(branchOutput: string, currentBranch: string): boolean {
-	try {
-		return parseGoneBranches(branchOutput).includes(currentBranch);
-	} catch {
-		return false;
-	}
+function isCurrentBranchGone(refs: readonly BranchRef[], currentBranch: string): boolean {
+	return refs.some((ref) => !ref.isRemote && ref.name === currentBranch && ref.upstreamGone);
 }
 
 /**
- * Normalizes `git branch -avv` output to `git branch -a` format for parseBranches.
- * Strips hash and tracking info from each line, keeping only the branch ref.
+ * For a remote ref like "origin/main", returns the remote name "origin"; undefined for a local ref.
  */
-function toBranchAFormat(avvOutput: string): string {
-	return avvOutput
-		.split(/\r?\n/)
-		.map((line) => {
-			const trimmed = line.trim();
-			if (!trimmed) {
-				return '';
-			}
-			const isCurrent = trimmed.startsWith('*');
-			const rest = trimmed.replace(/^\*\s+/, '').trim();
-			if (!rest || rest === 'HEAD') {
-				return '';
-			}
-			if (rest.startsWith('remotes/')) {
-				const firstToken = rest.split(/\s+/)[0];
-				if (firstToken.endsWith('/HEAD') || firstToken.includes('->')) {
-					return '';
-				}
-				return (isCurrent ? '* ' : '  ') + firstToken;
-			}
-			const firstToken = rest.split(/\s+/)[0];
-			return (isCurrent ? '* ' : '  ') + firstToken;
-		})
-		.filter((l) => l.length > 0)
-		.join('\n');
+function toRemoteName(ref: string, isRemote: boolean): string | undefined {
+	const slashIdx = ref.indexOf('/');
+	return isRemote && slashIdx > 0 ? ref.slice(0, slashIdx) : undefined;
 }
 
 /**
@@ -85,6 +57,169 @@ function toLocalBranchRef(ref: string, isRemote: boolean): string {
 	return slashIdx > 0 ? ref.slice(slashIdx + 1) : ref;
 }
 
+function summarizeChanges(changes: readonly string[]): string {
+	const listed = changes.slice(0, MAX_LISTED_CHANGES).map((line) => line.slice(3));
+	const more = changes.length - listed.length;
+	return more > 0 ? `${listed.join(', ')} and ${more} more` : listed.join(', ');
+}
+
+/**
+ * Asks what to do with uncommitted changes before switching branches.
+ * Returns undefined when the user cancels.
+ */
+async function promptDirtyWorkingTree(
+	currentBranch: string,
+	changes: readonly string[],
+	deps: PostPullRequestDeps
+): Promise<typeof STASH_CHANGES | typeof CARRY_CHANGES | undefined> {
+	const selected = await deps.ui.showQuickPick(
+		[
+			{ label: STASH_CHANGES, description: 'Stash before checkout, re-apply after pull' },
+			{ label: CARRY_CHANGES, description: 'Let git keep them in the working tree (fails if they conflict)' },
+		],
+		{
+			canPickMany: false,
+			ignoreFocusOut: true,
+			matchOnDescription: false,
+			title: `Post Pull Request: "${currentBranch}" has ${changes.length} uncommitted change(s)`,
+			placeHolder: summarizeChanges(changes),
+		}
+	);
+	const label = selected === undefined || Array.isArray(selected) ? undefined : (selected as QuickPickItemLike).label;
+	return label === STASH_CHANGES || label === CARRY_CHANGES ? label : undefined;
+}
+
+/**
+ * Called when `git pull --ff-only` refuses because the local branch diverged from its upstream:
+ * offers to reset the branch to the remote (`--keep` preserves uncommitted changes) or keep it as is.
+ * Returns the summary notification.
+ */
+async function resolveDivergedBranch(
+	localTarget: string,
+	runGit: (args: string[]) => Promise<{ stdout: string; stderr: string }>,
+	deps: PostPullRequestDeps
+): Promise<string> {
+	let counts: { ahead: number; behind: number } | undefined;
+	try {
+		counts = parseAheadBehind((await runGit(['rev-list', '--left-right', '--count', '@{u}...HEAD'])).stdout);
+	} catch {
+		counts = undefined;
+	}
+	deps.output.appendLine(
+		`[diverged] ${localTarget}: ${counts ? `${counts.ahead} local and ${counts.behind} remote commit(s)` : 'cannot fast-forward'}`
+	);
+
+	const selected = await deps.ui.showQuickPick(
+		[
+			{ label: RESET_TO_REMOTE, description: `Drop local commits from ${localTarget} (git reset --keep @{u})` },
+			{ label: KEEP_LOCAL, description: 'Leave the branch as is and integrate it yourself' },
+		],
+		{
+			canPickMany: false,
+			ignoreFocusOut: true,
+			matchOnDescription: false,
+			title: `Post Pull Request: "${localTarget}" has diverged from its upstream`,
+			placeHolder: counts
+				? `Cannot fast-forward: ${localTarget} has ${counts.ahead} commit(s) that are not on the remote, and the remote has ${counts.behind} new commit(s).`
+				: `Cannot fast-forward: ${localTarget} has commits that are not on the remote.`,
+		}
+	);
+	const action = selected === undefined || Array.isArray(selected) ? undefined : (selected as QuickPickItemLike).label;
+
+	if (action === RESET_TO_REMOTE) {
+		const previousTip = (await runGit(['rev-parse', 'HEAD'])).stdout.trim();
+		await runGit(['reset', '--keep', '@{u}']);
+		deps.output.appendLine(`Reset ${localTarget} to its upstream. Previous tip: ${previousTip}`);
+		return `Git Sweep Pro: Switched to ${localTarget} and reset it to the remote.`;
+	}
+
+	deps.output.appendLine(`Kept local commits on ${localTarget}; not pulled.`);
+	return `Git Sweep Pro: Switched to ${localTarget}. It has diverged from the remote and was not pulled.`;
+}
+
+/**
+ * Force-deletes the branch the user switched away from (recording it in the journal),
+ * unless it matches a protected pattern.
+ */
+async function deletePreviousBranch(workspaceRoot: string, currentBranch: string, deps: PostPullRequestDeps): Promise<void> {
+	const runGit = (args: string[]) => deps.runGitCommand(args, workspaceRoot);
+	const protectedPattern = findProtectedPattern(currentBranch, readSweepSettings(deps.config).protectedBranches);
+	if (protectedPattern) {
+		deps.output.appendLine(`[protected] ${currentBranch}: not deleted (matches "${protectedPattern}")`);
+		deps.ui.showInformationMessage(
+			`Git Sweep Pro: Kept branch "${currentBranch}" because it matches the protected pattern "${protectedPattern}".`
+		);
+		return;
+	}
+
+	try {
+		const tip = deps.journal
+			? parseBranchTips((await runGit(['for-each-ref', BRANCH_TIP_FORMAT, `refs/heads/${currentBranch}`])).stdout).get(currentBranch)
+			: undefined;
+		await deps.ui.withProgress(
+			{ title: `Git Sweep Pro: Deleting branch ${currentBranch}...` },
+			() => runGit(['branch', '-D', currentBranch])
+		);
+		deps.output.appendLine(`Deleted branch: ${currentBranch}`);
+		if (deps.journal && tip) {
+			await deps.journal.record(await resolveJournalKey(runGit, workspaceRoot), [toJournalEntry(tip, 'force', new Date())]);
+		}
+	} catch (error) {
+		const info = classifyGitError(error);
+		deps.ui.showErrorMessage(
+			info.category === 'unknown'
+				? `Git Sweep Pro: Could not delete branch "${currentBranch}". You can delete it manually with: git branch -D ${escapeForShell(currentBranch)}`
+				: `Git Sweep Pro: Could not delete branch "${currentBranch}". ${[info.message, info.suggestion].filter(Boolean).join(' ')}`
+		);
+	}
+}
+
+/**
+ * In detached HEAD there is no previous branch to delete; instead offers to delete the gone
+ * branches whose tip is the detached commit (e.g. a reviewed PR checked out by SHA). Branches that
+ * merely contain it are not offered: an older main commit is in the history of every branch.
+ */
+async function offerGoneBranchCleanup(
+	workspaceRoot: string,
+	sha: string,
+	goneBranches: readonly string[],
+	deps: PostPullRequestDeps
+): Promise<void> {
+	if (goneBranches.length === 0) {
+		return;
+	}
+	const runGit = (args: string[]) => deps.runGitCommand(args, workspaceRoot);
+	const pointingAt = (await runGit(['for-each-ref', '--points-at', sha, '--format=%(refname:lstrip=2)', 'refs/heads'])).stdout
+		.split(/\r?\n/)
+		.map((name) => name.trim());
+	const { protectedBranches } = readSweepSettings(deps.config);
+	const owners = goneBranches.filter((branch) => pointingAt.includes(branch) && !findProtectedPattern(branch, protectedBranches));
+	if (owners.length === 0) {
+		return;
+	}
+
+	const selected = await deps.ui.showQuickPick(
+		owners.map((branch) => ({ label: branch, description: 'upstream gone', picked: false })),
+		{
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: false,
+			title: `Post Pull Request: The detached commit ${sha.slice(0, 7)} is the tip of ${owners.length} gone branch(es)`,
+			placeHolder: 'Selected branches are force-deleted (-D). Check the ones to remove.',
+		}
+	);
+	const names = normalizeQuickPickSelection(selected).map((item) => item.label);
+	if (names.length === 0) {
+		deps.output.appendLine('Kept the gone branches pointing at the detached commit.');
+		return;
+	}
+
+	const result = await deleteBranches(workspaceRoot, names, { dryRun: false, forceDelete: true }, deps);
+	for (const branch of result.deleted) {
+		deps.output.appendLine(`Deleted branch: ${branch}`);
+	}
+}
+
 export async function runPostPullRequestWorkflow(deps: PostPullRequestDeps): Promise<void> {
 	const workspaceRoot = deps.getWorkspaceRoot();
 	if (!workspaceRoot) {
@@ -97,38 +232,87 @@ export async function runPostPullRequestWorkflow(deps: PostPullRequestDeps): Pro
 	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
 
 	const runGit = (args: string[]) => deps.runGitCommand(args, workspaceRoot);
+	/** Label of the stash holding the user's changes until they are re-applied. */
+	let pendingStash: string | undefined;
+
+	const restoreStash = async (): Promise<void> => {
+		if (!pendingStash) {
+			return;
+		}
+		const label = pendingStash;
+		pendingStash = undefined;
+		try {
+			const result = await reapplyStash(runGit, label);
+			if (result.status === 'applied') {
+				deps.output.appendLine('Re-applied stashed changes.');
+			} else if (result.status === 'missing') {
+				deps.output.appendLine(`[stash-missing] Stash "${label}" was not found; nothing re-applied.`);
+			} else {
+				deps.output.appendLine(`[stash-conflict] ${result.files.join(', ')}`);
+				deps.ui.showErrorMessage(
+					`Git Sweep Pro: Re-applying your changes caused conflicts in ${result.files.join(', ')}. Resolve them; the changes are kept in ${result.ref} ("${label}").`
+				);
+			}
+		} catch (error) {
+			const msg = error instanceof Error ? error.message : String(error);
+			deps.output.appendLine(`[stash-failed] ${msg}`);
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Could not re-apply your changes. They are kept in the stash "${label}".`
+			);
+		}
+	};
 
 	try {
 		await deps.ui.withProgress(
 			{ title: 'Git Sweep Pro: Fetching remotes...' },
-			() => runGit(['fetch', '-p'])
+			() => fetchAndPruneRemotes(workspaceRoot, deps)
 		);
 
-		const [currentBranchResult, branchListResult] = await Promise.all([
+		const [currentBranchResult, branchRefs] = await Promise.all([
 			runGit(['rev-parse', '--abbrev-ref', 'HEAD']),
-			runGit(['branch', '-avv']),
+			listBranchRefs(runGit, ['refs/heads', 'refs/remotes']),
 		]);
 
 		const currentBranch = currentBranchResult.stdout.trim();
-		if (!currentBranch || currentBranch === 'HEAD') {
-			deps.ui.showErrorMessage('Git Sweep Pro: Could not determine current branch (detached HEAD?).');
+		if (!currentBranch) {
+			deps.ui.showErrorMessage('Git Sweep Pro: Could not determine current branch.');
 			return;
 		}
 
-		const branchItems = parseBranches(toBranchAFormat(branchListResult.stdout));
+		/** Set when HEAD is detached, e.g. after checking out a PR by SHA. */
+		const detachedSha = currentBranch === 'HEAD' ? (await runGit(['rev-parse', 'HEAD'])).stdout.trim() : undefined;
+		const previousLabel = detachedSha ? `detached HEAD at ${detachedSha.slice(0, 7)}` : currentBranch;
+		if (detachedSha) {
+			deps.output.appendLine(`Detached HEAD at ${detachedSha}.`);
+		}
+
+		const branchItems = toBranchItems(branchRefs);
 		if (branchItems.length === 0) {
 			deps.ui.showInformationMessage('Git Sweep Pro: No other branches available to checkout.');
 			return;
 		}
 
-		const defaultBranch = await getDefaultBranchName(runGit);
-		const isGone = isCurrentBranchGone(branchListResult.stdout, currentBranch);
+		const resolvedDefault = await resolveDefaultBranch(runGit, { ...readSweepSettings(deps.config), queryRemote: true });
+		const defaultBranch = resolvedDefault?.name;
+		if (resolvedDefault) {
+			deps.output.appendLine(`Default branch: ${resolvedDefault.remote}/${resolvedDefault.name}`);
+		}
+		const isGone = !detachedSha && isCurrentBranchGone(branchRefs, currentBranch);
 
 		const quickPickItems = branchItems.map((b) => {
-			const isDefault = Boolean(defaultBranch && toLocalBranchRef(b.ref, b.isRemote) === defaultBranch);
+			/* In fork setups only the default remote's branch (and the local branch) is the default */
+			const remoteName = toRemoteName(b.ref, b.isRemote);
+			const isDefault = Boolean(
+				resolvedDefault &&
+					toLocalBranchRef(b.ref, b.isRemote) === resolvedDefault.name &&
+					(!remoteName || remoteName === resolvedDefault.remote)
+			);
 			return {
 				label: b.isRemote ? `${b.label} (remote)` : b.label,
-				description: [b.isRemote ? 'remote' : undefined, isDefault ? 'default' : undefined]
+				description: [
+					b.isRemote ? 'remote' : undefined,
+					isDefault && resolvedDefault ? `default on ${resolvedDefault.remote}` : undefined,
+				]
 					.filter(Boolean)
 					.join(', ') || undefined,
 				picked: isDefault,
@@ -167,6 +351,25 @@ export async function runPostPullRequestWorkflow(deps: PostPullRequestDeps): Pro
 		const targetRef = targetItem.ref;
 		const localTarget = toLocalBranchRef(targetRef, targetItem.isRemote);
 
+		const changes = await listUncommittedChanges(runGit);
+		if (changes.length > 0) {
+			const choice = await promptDirtyWorkingTree(previousLabel, changes, deps);
+			if (!choice) {
+				deps.output.appendLine('Operation cancelled: working tree has uncommitted changes.');
+				deps.output.appendLine('--- Post Pull Request session ended ---');
+				return;
+			}
+			if (choice === STASH_CHANGES) {
+				const label = createStashLabel(previousLabel, new Date());
+				if (await stashChanges(runGit, label)) {
+					pendingStash = label;
+					deps.output.appendLine(`Stashed ${changes.length} change(s) as "${label}".`);
+				}
+			} else {
+				deps.output.appendLine(`Carrying ${changes.length} uncommitted change(s) over to ${localTarget}.`);
+			}
+		}
+
 		try {
 			await deps.ui.withProgress(
 				{ title: `Git Sweep Pro: Checking out ${localTarget}...` },
@@ -186,66 +389,70 @@ export async function runPostPullRequestWorkflow(deps: PostPullRequestDeps): Pro
 			);
 		} catch (checkoutError) {
 			const msg = checkoutError instanceof Error ? checkoutError.message : String(checkoutError);
-			deps.ui.showErrorMessage(`Git Sweep Pro: Checkout failed: ${msg}`);
+			deps.ui.showErrorMessage(
+				changes.length > 0 && !pendingStash
+					? `Git Sweep Pro: Checkout failed: ${msg} Your uncommitted changes may conflict with ${localTarget}; stash or commit them first.`
+					: `Git Sweep Pro: Checkout failed: ${msg}`
+			);
 			deps.output.appendLine(`[error] Checkout failed: ${msg}`);
+			/* Still on the original branch: put the changes back where they were */
+			await restoreStash();
 			deps.output.appendLine('--- Post Pull Request session ended ---');
 			return;
 		}
 
 		deps.output.appendLine(`Checked out: ${localTarget}`);
 
-		try {
-			await deps.ui.withProgress(
-				{ title: `Git Sweep Pro: Deleting branch ${currentBranch}...` },
-				() => runGit(['branch', '-D', currentBranch])
-			);
-			deps.output.appendLine(`Deleted branch: ${currentBranch}`);
-		} catch {
-			deps.ui.showErrorMessage(
-				`Git Sweep Pro: Could not delete branch "${currentBranch}". You can delete it manually with: git branch -D ${escapeForShell(currentBranch)}`
-			);
+		if (detachedSha) {
+			deps.output.appendLine('Detached HEAD: no previous branch to delete.');
+			await offerGoneBranchCleanup(workspaceRoot, detachedSha, goneBranchNames(branchRefs), deps);
+		} else {
+			await deletePreviousBranch(workspaceRoot, currentBranch, deps);
 		}
 
 		// Sweep here intentionally uses safe delete (-d only): dryRun=false, forceDelete=false.
 		// runSweepWorkflow is not given forceDelete to avoid -D on other gone branches.
 		await runSweepWorkflow({ dryRun: false, forceDelete: false }, deps);
 
-		let pulled = false;
-		try {
-			await deps.ui.withProgress(
-				{ title: `Git Sweep Pro: Pulling ${localTarget}...` },
-				() => runGit(['pull'])
-			);
-			pulled = true;
-			deps.output.appendLine(`Pulled latest changes for ${localTarget}.`);
-		} catch (pullError) {
-			const msg = pullError instanceof Error ? pullError.message : String(pullError);
-			if (/no upstream|no tracking|please specify.*branch/i.test(msg)) {
-				deps.output.appendLine(`No upstream configured for ${localTarget}. Pull skipped.`);
-				deps.ui.showInformationMessage(
-					`Git Sweep Pro: Switched to ${localTarget}. (No upstream—pull skipped.)`
+		const { pullStrategy } = readSweepSettings(deps.config);
+		deps.output.appendLine(`Pull strategy: ${pullStrategy}`);
+		let summary: string | undefined;
+		if (pullStrategy === 'fetch-only') {
+			deps.output.appendLine(`Pull skipped for ${localTarget} (fetch-only).`);
+			summary = `Git Sweep Pro: Switched to ${localTarget}. (fetch-only—not pulled.)`;
+		} else {
+			try {
+				await deps.ui.withProgress(
+					{ title: `Git Sweep Pro: Pulling ${localTarget} (${pullStrategy})...` },
+					() => runGit(PULL_ARGS[pullStrategy])
 				);
-			} else {
-				throw pullError;
+				deps.output.appendLine(`Pulled latest changes for ${localTarget}.`);
+				summary = `Git Sweep Pro: Switched to ${localTarget} and pulled.`;
+			} catch (pullError) {
+				const msg = pullError instanceof Error ? pullError.message : String(pullError);
+				if (/no upstream|no tracking|please specify.*branch/i.test(msg)) {
+					deps.output.appendLine(`No upstream configured for ${localTarget}. Pull skipped.`);
+					deps.ui.showInformationMessage(
+						`Git Sweep Pro: Switched to ${localTarget}. (No upstream—pull skipped.)`
+					);
+				} else if (pullStrategy === 'ff-only' && /fast-forward|diverge/i.test(msg)) {
+					summary = await resolveDivergedBranch(localTarget, runGit, deps);
+				} else {
+					throw pullError;
+				}
 			}
 		}
 
+		await restoreStash();
 		deps.output.appendLine('--- Post Pull Request session ended ---');
-		if (pulled) {
-			deps.ui.showInformationMessage(`Git Sweep Pro: Switched to ${localTarget} and pulled.`);
+		if (summary) {
+			deps.ui.showInformationMessage(summary);
 		}
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
-		const lowerMessage = message.toLowerCase();
-
-		if (lowerMessage.includes('not a git repository')) {
-			deps.ui.showErrorMessage('Git Sweep Pro: The selected workspace folder is not a Git repository.');
-		} else if (lowerMessage.includes('command not found') || lowerMessage.includes('enoent')) {
-			deps.ui.showErrorMessage('Git Sweep Pro: Git is not installed or not available in PATH.');
-		} else {
-			deps.ui.showErrorMessage(`Git Sweep Pro failed: ${message}`);
-		}
+		deps.ui.showErrorMessage(formatGitError(classifyGitError(error)));
 		deps.output.appendLine(`[error] ${message}`);
+		await restoreStash();
 		deps.output.appendLine('--- Post Pull Request session ended ---');
 	}
 }
@@ -0,0 +1,32 @@
+/**
+ * Converts a branch glob into an anchored regular expression.
+ * - `**` matches any characters, including "/".
+ * - `*` matches any characters except "/".
+ * - `?` matches a single character except "/".
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '*') {
+			if (pattern[i + 1] === '*') {
+				source += '.*';
+				i += 1;
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns the first pattern that protects the branch, or undefined if the branch may be swept.
+ */
+export function findProtectedPattern(branch: string, patterns: readonly string[]): string | undefined {
+	return patterns.find((pattern) => pattern.trim().length > 0 && globToRegExp(pattern.trim()).test(branch));
+}
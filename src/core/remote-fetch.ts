@@ -0,0 +1,92 @@
+import { isCancellationError } from './git-command';
+import { readSweepSettings } from './settings';
+import type { SweepWorkflowDeps } from './sweep-workflow';
+
+export type RemoteFetchFailure = {
+	readonly remote: string;
+	readonly error: unknown;
+};
+
+export type RemoteFetchResult = {
+	readonly fetched: readonly string[];
+	readonly failed: readonly RemoteFetchFailure[];
+};
+
+/**
+ * Lists configured remotes (`git remote`).
+ */
+export async function listRemotes(repoRoot: string, deps: Pick<SweepWorkflowDeps, 'runGitCommand'>): Promise<string[]> {
+	return (await deps.runGitCommand(['remote'], repoRoot)).stdout
+		.split(/\r?\n/)
+		.map((remote) => remote.trim())
+		.filter(Boolean);
+}
+
+/** Most remotes fetched at the same time by `git fetch --multiple --jobs`. */
+const MAX_FETCH_JOBS = 4;
+
+/**
+ * Remotes named in git's "could not fetch <remote>" errors of a `git fetch --multiple`.
+ */
+export function parseFailedFetchRemotes(stderr: string, remotes: readonly string[]): string[] {
+	const named = [...stderr.matchAll(/could not fetch '?([^'\s]+)'?/g)].map((match) => match[1]);
+	return remotes.filter((remote) => named.includes(remote));
+}
+
+/**
+ * Fetches and prunes every remote (or those in the fetchRemotes setting), so gone-upstream detection
+ * sees deletions on all of them. Several remotes are fetched in parallel by one
+ * `git fetch --multiple --jobs` process, which, unlike separate fetches, does not contend for
+ * FETCH_HEAD or the packed-refs lock. A failing remote is logged and the others still count; only
+ * when every remote fails is the error thrown. Cancellation is rethrown at once.
+ */
+export async function fetchAndPruneRemotes(
+	repoRoot: string,
+	deps: Pick<SweepWorkflowDeps, 'runGitCommand' | 'output' | 'config'>,
+	signal?: AbortSignal
+): Promise<RemoteFetchResult> {
+	const configured = await listRemotes(repoRoot, deps);
+	const selection = readSweepSettings(deps.config).fetchRemotes;
+	for (const remote of selection.filter((r) => !configured.includes(r))) {
+		deps.output.appendLine(`[skipped] ${remote}: no such remote`);
+	}
+	const remotes = selection.length > 0 ? configured.filter((r) => selection.includes(r)) : configured;
+
+	if (remotes.length === 0) {
+		/* No remote listed (or none selected exists): let git pick its default remote, as before */
+		await deps.runGitCommand(['fetch', '-p'], repoRoot, signal);
+		return { fetched: [], failed: [] };
+	}
+
+	const args = remotes.length === 1
+		? ['fetch', '-p', remotes[0]]
+		: ['fetch', '--multiple', '--prune', `--jobs=${Math.min(remotes.length, MAX_FETCH_JOBS)}`, ...remotes];
+	let failed: RemoteFetchFailure[] = [];
+	try {
+		await deps.runGitCommand(args, repoRoot, signal);
+	} catch (error) {
+		if (isCancellationError(error)) {
+			throw error;
+		}
+		/* git fetches the other remotes and names each one that failed */
+		const stderr = (error as { stderr?: string }).stderr ?? (error instanceof Error ? error.message : '');
+		const named = remotes.length === 1 ? [] : parseFailedFetchRemotes(stderr, remotes);
+		failed = (named.length > 0 ? named : remotes).map((remote) => ({ remote, error }));
+	}
+	const fetched = remotes.filter((remote) => !failed.some((f) => f.remote === remote));
+
+	for (const { remote, error } of failed) {
+		const message = error instanceof Error ? error.message : String(error);
+		deps.output.appendLine(`[fetch-failed] ${remote}: ${message}`);
+	}
+	if (fetched.length === 0) {
+		throw failed[0].error;
+	}
+	deps.output.appendLine(`Fetched and pruned: ${fetched.join(', ')}`);
+	if (failed.length > 0) {
+		deps.output.appendLine(
+			`Branches tracking ${failed.map((f) => f.remote).join(', ')} were not pruned and may not show as gone.`
+		);
+	}
+	return { fetched, failed };
+}
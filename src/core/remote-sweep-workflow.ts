@@ -0,0 +1,221 @@
+import { resolveDefaultBranch } from './default-branch';
+import { classifyGitError, formatGitError } from './git-command';
+import { describeDetectionReason } from './merge-detection';
+import { findProtectedPattern } from './protected-branches';
+import { fetchAndPruneRemotes } from './remote-fetch';
+import { readSweepSettings } from './settings';
+import { createSweepReportRecorder } from './sweep-report';
+import type { SweepMode } from './sweep-logic';
+import {
+	normalizeQuickPickSelection,
+	type DeleteFailure,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from './sweep-workflow';
+
+export type MergedRemoteBranch = {
+	/** Branch name on the remote, without the remote prefix. */
+	readonly name: string;
+	/** Tip as of the last fetch; the delete is leased on it. */
+	readonly sha: string;
+};
+
+/**
+ * Lists branches of `remote` that are fully merged into `<remote>/<defaultBranch>`, excluding
+ * the default branch itself and the remote's HEAD symref.
+ */
+export async function findMergedRemoteBranches(
+	repoRoot: string,
+	remote: string,
+	defaultBranch: string,
+	deps: Pick<SweepWorkflowDeps, 'runGitCommand'>
+): Promise<MergedRemoteBranch[]> {
+	const prefix = `refs/remotes/${remote}/`;
+	const args = [
+		'for-each-ref',
+		'--merged',
+		`${remote}/${defaultBranch}`,
+		'--format=%(refname)%00%(objectname)%00%(symref)',
+		`refs/remotes/${remote}`,
+	];
+	return (await deps.runGitCommand(args, repoRoot)).stdout
+		.split(/\r?\n/)
+		.map((line) => line.split('\0'))
+		.filter(([refname = '', sha, symref]) => refname.startsWith(prefix) && sha && !symref)
+		.map(([refname, sha]) => ({ name: refname.slice(prefix.length), sha }))
+		.filter((branch) => branch.name !== defaultBranch);
+}
+
+/**
+ * Deletes branches on the server that are already merged into the remote default branch,
+ * using `git push <remote> --delete` leased on the fetched tip, so a branch that received new
+ * commits since the fetch is rejected instead of deleted. Protected branches are never offered.
+ */
+export async function runRemoteSweepWorkflow(mode: Pick<SweepMode, 'dryRun'>, deps: SweepWorkflowDeps): Promise<void> {
+	const workspaceRoot = deps.getWorkspaceRoot();
+	if (!workspaceRoot) {
+		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
+		return;
+	}
+
+	deps.output.show(true);
+	deps.output.appendLine('--- Git Sweep (remote branches) session started ---');
+	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
+	const modeLabel = mode.dryRun ? 'dry-run' : 'delete on remote';
+	deps.output.appendLine(`Mode: ${modeLabel}`);
+	const report = createSweepReportRecorder('remote', modeLabel);
+	let reportStarted = false;
+
+	try {
+		const { fetched } = await deps.ui.withProgress(
+			{
+				title: 'Git Sweep Pro: Fetching and pruning remote references...',
+				cancellable: true,
+			},
+			(_progress, signal) => fetchAndPruneRemotes(workspaceRoot, deps, signal)
+		);
+
+		const settings = readSweepSettings(deps.config);
+		const defaultBranch = await resolveDefaultBranch((args) => deps.runGitCommand(args, workspaceRoot), {
+			...settings,
+			queryRemote: true,
+		});
+		if (!defaultBranch) {
+			deps.output.appendLine('No remote default branch found.');
+			deps.ui.showErrorMessage(
+				'Git Sweep Pro: No remote default branch found. Run "git remote set-head <remote> --auto" and try again.'
+			);
+			return;
+		}
+		const { remote } = defaultBranch;
+		if (!fetched.includes(remote)) {
+			/* Excluded by gitSweepPro.fetchRemotes or failed above: never judge the swept remote from stale refs */
+			await deps.ui.withProgress(
+				{ title: `Git Sweep Pro: Fetching and pruning ${remote}...`, cancellable: true },
+				(_progress, signal) => deps.runGitCommand(['fetch', '-p', remote], workspaceRoot, signal)
+			);
+		}
+
+		const merged = await findMergedRemoteBranches(workspaceRoot, remote, defaultBranch.name, deps);
+		const candidates = merged.filter(({ name }) => {
+			const pattern = findProtectedPattern(name, settings.protectedBranches);
+			if (pattern) {
+				deps.output.appendLine(`[protected] ${remote}/${name}: skipped (matches "${pattern}")`);
+			}
+			return !pattern;
+		});
+		const reason = describeDetectionReason('merged', defaultBranch.name);
+		report.addCandidates(
+			workspaceRoot,
+			candidates.map(({ name }) => ({ branch: `${remote}/${name}`, reason }))
+		);
+		reportStarted = true;
+
+		if (candidates.length === 0) {
+			deps.output.appendLine(`No merged branches found on ${remote}.`);
+			deps.ui.showInformationMessage(`Git Sweep Pro: No merged branches found on ${remote}.`);
+			return;
+		}
+
+		const quickPickItems: QuickPickItemLike[] = candidates.map(({ name }) => ({
+			label: `${remote}/${name}`,
+			description: reason,
+		}));
+
+		const selected = await deps.ui.showQuickPick(quickPickItems, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title: mode.dryRun
+				? `Git Sweep Pro: Select ${remote} branches to include in dry run`
+				: `Git Sweep Pro: Select branches to delete from ${remote}`,
+			placeHolder: 'Deleting a remote branch removes it for everyone. Check the ones to remove.',
+		});
+
+		const branches = normalizeQuickPickSelection(selected)
+			.map((item) => candidates[quickPickItems.findIndex((candidate) => candidate.label === item.label)])
+			.filter((branch): branch is MergedRemoteBranch => branch !== undefined);
+		const branchNames = branches.map((branch) => branch.name);
+
+		if (branchNames.length === 0) {
+			deps.output.appendLine('Operation cancelled or no branches selected.');
+			deps.ui.showInformationMessage('Git Sweep Pro: No branches selected.');
+			return;
+		}
+
+		report.markSelected(
+			workspaceRoot,
+			branchNames.map((branch) => `${remote}/${branch}`)
+		);
+		deps.output.appendLine(`${mode.dryRun ? '[DRY RUN]' : '[DELETE]'} Selected remote branches:`);
+		for (const branch of branchNames) {
+			deps.output.appendLine(`- ${remote}/${branch}`);
+		}
+
+		if (mode.dryRun) {
+			report.markDryRun(workspaceRoot);
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro (dry run): ${branchNames.length} branch(es) would be deleted from ${remote}.`
+			);
+			return;
+		}
+
+		const deleted: string[] = [];
+		const failed: DeleteFailure[] = [];
+		const cancelled: string[] = [];
+		await deps.ui.withProgress(
+			{ title: `Git Sweep Pro: Deleting ${branches.length} branch(es) from ${remote}...`, cancellable: true },
+			async (progress, signal) => {
+				for (const [i, { name: branch, sha }] of branches.entries()) {
+					if (signal.aborted) {
+						cancelled.push(...branches.slice(i).map(({ name }) => `${remote}/${name}`));
+						return;
+					}
+					progress.report({ message: `Deleting ${i + 1}/${branches.length}: ${remote}/${branch}` });
+					try {
+						/* No signal: a running push is left to finish so the remote is not left mid-update */
+						await deps.runGitCommand(
+							['push', `--force-with-lease=refs/heads/${branch}:${sha}`, remote, '--delete', branch],
+							workspaceRoot
+						);
+						deleted.push(`${remote}/${branch}`);
+						deps.output.appendLine(`Deleted remote branch: ${remote}/${branch}`);
+					} catch (error) {
+						const message = error instanceof Error ? error.message : String(error);
+						failed.push({ branch: `${remote}/${branch}`, error: message, category: classifyGitError(error).category });
+						deps.output.appendLine(`[delete-failed] ${remote}/${branch}: ${message}`);
+					}
+				}
+			}
+		);
+		report.recordResult(workspaceRoot, { deleted, failed, cancelled });
+		const deletedCount = deleted.length;
+
+		if (cancelled.length > 0) {
+			deps.output.appendLine(`[cancelled] ${cancelled.length} branch(es) not deleted: ${cancelled.join(', ')}`);
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro: Cancelled after deleting ${deletedCount}/${branchNames.length} branch(es) from ${remote}; ` +
+					`${cancelled.length} not deleted.`
+			);
+		} else if (deletedCount === branchNames.length) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Deleted ${deletedCount} branch(es) from ${remote}.`);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Deleted ${deletedCount}/${branchNames.length} branch(es) from ${remote}. See "Git Sweep" output for details.`
+			);
+		}
+	} catch (error) {
+		const info = classifyGitError(error);
+		if (info.category === 'cancelled') {
+			deps.output.appendLine('Remote sweep cancelled.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Remote sweep cancelled. No remote branches were deleted.');
+		} else {
+			deps.ui.showErrorMessage(formatGitError(info));
+		}
+	} finally {
+		if (reportStarted) {
+			deps.recordReport?.(report.finish());
+		}
+		deps.output.appendLine('--- Git Sweep (remote branches) session ended ---');
+	}
+}
@@ -0,0 +1,121 @@
+import { resolveJournalKey, type DeletionJournal, type DeletionJournalEntry } from './deletion-journal';
+import { classifyGitError, formatGitError } from './git-command';
+import { normalizeQuickPickSelection, type QuickPickItemLike, type SweepWorkflowDeps } from './sweep-workflow';
+
+export type RestoreWorkflowDeps = SweepWorkflowDeps & {
+	readonly journal: DeletionJournal;
+};
+
+/**
+ * Formats an ISO timestamp as "YYYY-MM-DD HH:MM" (UTC) for compact quick-pick display.
+ */
+function formatDeletedAt(iso: string): string {
+	return iso.slice(0, 16).replace('T', ' ');
+}
+
+function toQuickPickItem(entry: DeletionJournalEntry): QuickPickItemLike {
+	const upstream = entry.upstreamRemote && entry.upstreamMerge
+		? `${entry.upstreamRemote}/${entry.upstreamMerge.replace(/^refs\/heads\//, '')}`
+		: undefined;
+	return {
+		label: entry.branch,
+		description: [entry.sha.slice(0, 7), entry.mode === 'force' ? '-D' : '-d', upstream].filter(Boolean).join(', '),
+		detail: `Deleted ${formatDeletedAt(entry.deletedAt)}`,
+	};
+}
+
+/**
+ * Recreates a branch at its recorded tip SHA, restores its upstream configuration and drops
+ * the journal entry. The upstream is written with `git config` because the remote branch is
+ * usually gone, which makes `git branch --set-upstream-to` fail.
+ */
+export async function restoreDeletedBranch(
+	repoRoot: string,
+	entry: DeletionJournalEntry,
+	deps: Pick<RestoreWorkflowDeps, 'runGitCommand' | 'journal'>
+): Promise<void> {
+	const journalKey = await resolveJournalKey((args) => deps.runGitCommand(args, repoRoot), repoRoot);
+	await deps.runGitCommand(['branch', entry.branch, entry.sha], repoRoot);
+	if (entry.upstreamRemote && entry.upstreamMerge) {
+		try {
+			await deps.runGitCommand(['config', `branch.${entry.branch}.remote`, entry.upstreamRemote], repoRoot);
+			await deps.runGitCommand(['config', `branch.${entry.branch}.merge`, entry.upstreamMerge], repoRoot);
+		} catch (error) {
+			/* Undo the half-done restore so the entry, which stays in the journal, can be restored again */
+			await deps.runGitCommand(['branch', '-D', entry.branch], repoRoot).catch(() => undefined);
+			throw error;
+		}
+	}
+	await deps.journal.remove(journalKey, entry);
+}
+
+export async function runRestoreWorkflow(deps: RestoreWorkflowDeps): Promise<void> {
+	const workspaceRoot = deps.getWorkspaceRoot();
+	if (!workspaceRoot) {
+		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
+		return;
+	}
+
+	let entries: readonly DeletionJournalEntry[];
+	try {
+		entries = deps.journal.list(await resolveJournalKey((args) => deps.runGitCommand(args, workspaceRoot), workspaceRoot));
+	} catch (error) {
+		deps.ui.showErrorMessage(formatGitError(classifyGitError(error)));
+		return;
+	}
+	if (entries.length === 0) {
+		deps.ui.showInformationMessage('Git Sweep Pro: No deleted branches recorded for this repository.');
+		return;
+	}
+
+	deps.output.show(true);
+	deps.output.appendLine('--- Restore session started ---');
+	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
+
+	try {
+		const quickPickItems = entries.map(toQuickPickItem);
+		const selected = await deps.ui.showQuickPick(quickPickItems, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title: 'Git Sweep Pro: Select branches to restore',
+			placeHolder: 'Branches are recreated at the recorded commit, with their upstream configuration.',
+		});
+
+		const selectedEntries = normalizeQuickPickSelection(selected)
+			.map((item) => {
+				const index = quickPickItems.indexOf(item);
+				return index >= 0
+					? entries[index]
+					: entries.find((e, i) => quickPickItems[i].label === item.label && quickPickItems[i].description === item.description);
+			})
+			.filter((e): e is DeletionJournalEntry => e !== undefined);
+
+		if (selectedEntries.length === 0) {
+			deps.output.appendLine('Operation cancelled or no branches selected.');
+			return;
+		}
+
+		let restoredCount = 0;
+		for (const entry of selectedEntries) {
+			try {
+				await restoreDeletedBranch(workspaceRoot, entry, deps);
+				restoredCount += 1;
+				deps.output.appendLine(`Restored branch: ${entry.branch} at ${entry.sha}`);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				deps.output.appendLine(`[restore-failed] ${entry.branch}: ${message}`);
+			}
+		}
+
+		if (restoredCount === selectedEntries.length) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Restored ${restoredCount} branch(es).`);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Restored ${restoredCount}/${selectedEntries.length} branch(es). See "Git Sweep" output for details.`
+			);
+		}
+	} finally {
+		deps.output.appendLine('--- Restore session ended ---');
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * Minimal subset of vscode.WorkspaceConfiguration, scoped to the "gitSweepPro" section.
+ */
+export type ConfigurationLike = {
+	get<T>(section: string, defaultValue: T): T;
+};
+
+/** How Post Pull Request updates the branch it switched to. */
+export type PullStrategy = 'ff-only' | 'rebase' | 'merge' | 'fetch-only';
+
+export type SweepSettings = {
+	/** Also offer branches merged, squash-merged or rebase-merged into the default branch. */
+	readonly detectMergedBranches: boolean;
+	/** Branch globs that are never swept nor deleted by the post-PR flow. */
+	readonly protectedBranches: readonly string[];
+	/** Tag globs that Sweep Tags never offers. */
+	readonly protectedTags: readonly string[];
+	/** Include initialized submodules when sweeping all repositories. */
+	readonly includeSubmodules: boolean;
+	/** Age in days after which a branch's last commit makes it stale. */
+	readonly staleAfterDays: number;
+	/** Count gone branches in the background and show them in the status bar. Never deletes. */
+	readonly backgroundSweep: boolean;
+	/** Minutes between background checks; 0 checks only after a fetch. */
+	readonly backgroundSweepIntervalMinutes: number;
+	/** Pull mode used by Post Pull Request, independent of the user's pull.rebase config. */
+	readonly pullStrategy: PullStrategy;
+	/** Remote whose default branch is used; empty picks the current branch's upstream remote. */
+	readonly preferredRemote: string;
+	/** Seconds before `git fetch` and other remote queries are killed; 0 waits indefinitely. */
+	readonly fetchTimeoutSeconds: number;
+	/** Extra attempts after a fetch timeout. */
+	readonly fetchRetries: number;
+	/** Remotes fetched and pruned before a sweep; empty fetches every remote. */
+	readonly fetchRemotes: readonly string[];
+};
+
+export const DEFAULT_SWEEP_SETTINGS: SweepSettings = {
+	detectMergedBranches: false,
+	protectedBranches: ['main', 'master', 'develop', 'trunk', 'release/**'],
+	protectedTags: ['v*'],
+	includeSubmodules: false,
+	staleAfterDays: 90,
+	backgroundSweep: false,
+	backgroundSweepIntervalMinutes: 30,
+	pullStrategy: 'ff-only',
+	preferredRemote: '',
+	fetchTimeoutSeconds: 60,
+	fetchRetries: 1,
+	fetchRemotes: [],
+};
+
+/**
+ * Reads extension settings, falling back to defaults when no configuration is available.
+ */
+export function readSweepSettings(config: ConfigurationLike | undefined): SweepSettings {
+	if (!config) {
+		return DEFAULT_SWEEP_SETTINGS;
+	}
+	return {
+		detectMergedBranches: config.get('detectMergedBranches', DEFAULT_SWEEP_SETTINGS.detectMergedBranches),
+		protectedBranches: config.get('protectedBranches', DEFAULT_SWEEP_SETTINGS.protectedBranches),
+		protectedTags: config.get('protectedTags', DEFAULT_SWEEP_SETTINGS.protectedTags),
+		includeSubmodules: config.get('includeSubmodules', DEFAULT_SWEEP_SETTINGS.includeSubmodules),
+		staleAfterDays: config.get('staleAfterDays', DEFAULT_SWEEP_SETTINGS.staleAfterDays),
+		backgroundSweep: config.get('backgroundSweep', DEFAULT_SWEEP_SETTINGS.backgroundSweep),
+		backgroundSweepIntervalMinutes: config.get(
+			'backgroundSweepIntervalMinutes',
+			DEFAULT_SWEEP_SETTINGS.backgroundSweepIntervalMinutes
+		),
+		pullStrategy: config.get('postPullRequest.pullStrategy', DEFAULT_SWEEP_SETTINGS.pullStrategy),
+		preferredRemote: config.get('preferredRemote', DEFAULT_SWEEP_SETTINGS.preferredRemote),
+		fetchTimeoutSeconds: config.get('fetchTimeoutSeconds', DEFAULT_SWEEP_SETTINGS.fetchTimeoutSeconds),
+		fetchRetries: config.get('fetchRetries', DEFAULT_SWEEP_SETTINGS.fetchRetries),
+		fetchRemotes: config.get('fetchRemotes', DEFAULT_SWEEP_SETTINGS.fetchRemotes),
+	};
+}
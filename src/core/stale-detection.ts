@@ -0,0 +1,82 @@
+import type { RunGit } from './default-branch';
+
+export type StaleBranch = {
+	readonly branch: string;
+	readonly ageDays: number;
+	readonly author: string;
+	/** Commits on the branch that are not on the default branch, when it is known. */
+	readonly ahead?: number;
+	/** Commits on the default branch that are not on the branch, when it is known. */
+	readonly behind?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * `git for-each-ref` format for stale detection: name, committer date (unix seconds),
+ * author name and "*" for the checked-out branch.
+ */
+export const STALE_BRANCH_FORMAT = '--format=%(refname:lstrip=2)%00%(committerdate:unix)%00%(authorname)%00%(HEAD)';
+
+/**
+ * Parses `git rev-list --left-right --count <base>...<branch>` output ("<behind>\t<ahead>").
+ */
+export function parseAheadBehind(output: string): { ahead: number; behind: number } | undefined {
+	const match = output.trim().match(/^(\d+)\s+(\d+)$/);
+	return match ? { behind: Number(match[1]), ahead: Number(match[2]) } : undefined;
+}
+
+export function describeStaleBranch(stale: StaleBranch, defaultBranch?: string): string {
+	const parts = [`${stale.ageDays} days old`];
+	if (stale.author) {
+		parts.push(stale.author);
+	}
+	if (stale.ahead !== undefined && stale.behind !== undefined) {
+		parts.push(`${stale.ahead} ahead, ${stale.behind} behind ${defaultBranch ?? 'default branch'}`);
+	}
+	return parts.join(' · ');
+}
+
+/**
+ * Lists local branches whose last commit is older than staleAfterDays, oldest first.
+ * The checked-out branch and branches in `exclude` are skipped. When baseRef is given,
+ * ahead/behind counts against it are included; failures to count are ignored.
+ */
+export async function findStaleBranches(
+	runGit: RunGit,
+	options: {
+		readonly now: Date;
+		readonly staleAfterDays: number;
+		readonly baseRef?: string;
+		readonly exclude: ReadonlySet<string>;
+	}
+): Promise<StaleBranch[]> {
+	const output = (await runGit(['for-each-ref', STALE_BRANCH_FORMAT, 'refs/heads'])).stdout;
+	const stale: StaleBranch[] = [];
+
+	for (const line of output.split(/\r?\n/)) {
+		const [branch, committedAt, author, head] = line.split('\0');
+		const seconds = Number(committedAt);
+		if (!branch || !Number.isFinite(seconds) || head === '*' || options.exclude.has(branch)) {
+			continue;
+		}
+		const ageDays = Math.floor((options.now.getTime() - seconds * 1000) / DAY_MS);
+		if (ageDays < options.staleAfterDays) {
+			continue;
+		}
+
+		let counts: { ahead: number; behind: number } | undefined;
+		if (options.baseRef) {
+			try {
+				counts = parseAheadBehind(
+					(await runGit(['rev-list', '--left-right', '--count', `${options.baseRef}...${branch}`])).stdout
+				);
+			} catch {
+				counts = undefined;
+			}
+		}
+		stale.push({ branch, ageDays, author: author ?? '', ...counts });
+	}
+
+	return stale.sort((a, b) => b.ageDays - a.ageDays);
+}
@@ -0,0 +1,69 @@
+import type { RunGit } from './default-branch';
+
+export type StashReapplyResult =
+	| { readonly status: 'applied' }
+	/** The stash could not be found, e.g. it was dropped manually. */
+	| { readonly status: 'missing' }
+	/** Conflicts were left in the working tree; the stash is kept at `ref`. */
+	| { readonly status: 'conflict'; readonly ref: string; readonly files: readonly string[] };
+
+const STASH_LABEL_PREFIX = 'git-sweep-pro';
+
+/**
+ * Lists uncommitted and untracked changes as `git status --porcelain` lines (e.g. " M src/a.ts").
+ */
+export async function listUncommittedChanges(runGit: RunGit): Promise<string[]> {
+	return (await runGit(['status', '--porcelain']))
+		.stdout.split(/\r?\n/)
+		.filter((line) => line.trim().length > 0);
+}
+
+/**
+ * Message for a stash created by Git Sweep Pro, unique enough to find it again in `git stash list`.
+ */
+export function createStashLabel(branch: string, date: Date): string {
+	return `${STASH_LABEL_PREFIX}: post pull request from ${branch} at ${date.toISOString()}`;
+}
+
+/**
+ * Returns the reflog selector (e.g. "stash@{1}") of the stash created with the given label.
+ */
+export async function findStashRef(runGit: RunGit, label: string): Promise<string | undefined> {
+	const output = (await runGit(['stash', 'list', '--format=%gd%x00%gs'])).stdout;
+	return output
+		.split(/\r?\n/)
+		.map((line) => line.split('\0'))
+		.find(([, subject]) => subject !== undefined && subject.endsWith(`: ${label}`))?.[0];
+}
+
+/**
+ * Stashes tracked and untracked changes under the label. Returns false when git saved nothing.
+ */
+export async function stashChanges(runGit: RunGit, label: string): Promise<boolean> {
+	await runGit(['stash', 'push', '--include-untracked', '-m', label]);
+	return (await findStashRef(runGit, label)) !== undefined;
+}
+
+/**
+ * Pops the labelled stash. On conflicts git keeps the stash, so it stays findable by its label.
+ */
+export async function reapplyStash(runGit: RunGit, label: string): Promise<StashReapplyResult> {
+	const ref = await findStashRef(runGit, label);
+	if (!ref) {
+		return { status: 'missing' };
+	}
+
+	try {
+		await runGit(['stash', 'pop', ref]);
+		return { status: 'applied' };
+	} catch (error) {
+		const files = (await runGit(['diff', '--name-only', '--diff-filter=U'])).stdout
+			.split(/\r?\n/)
+			.map((file) => file.trim())
+			.filter(Boolean);
+		if (files.length === 0) {
+			throw error;
+		}
+		return { status: 'conflict', ref, files };
+	}
+}
@@ -1,8 +1,14 @@
 export type SweepMode = {
 	readonly dryRun: boolean;
 	readonly forceDelete: boolean;
+	/** Skip `git fetch -p` and work from the existing remote-tracking refs, which may be stale. */
+	readonly offline?: boolean;
 };
 
+/** Output line explaining that an offline sweep did not refresh remote state. */
+export const OFFLINE_WARNING =
+	'[offline] Skipped "git fetch -p": remote-tracking refs are from the last fetch, so results may be stale.';
+
 export function resolveSweepModeAction(action: string | undefined): SweepMode | undefined {
 	if (!action) {
 		return undefined;
@@ -23,15 +29,13 @@ export function resolveSweepModeAction(action: string | undefined): SweepMode |
 	return undefined;
 }
 
-export function parseGoneBranches(branchVvOutput: string): string[] {
-	return branchVvOutput
-		.split('\n')
-		.map((line) => line.trim())
-		.filter((line) => line.includes(': gone]'))
-		.map((line) => {
-			const sanitized = line.replace(/^\*\s+/, '');
-			return sanitized.split(/\s+/)[0];
-		})
-		.filter((name) => !name.startsWith('['))
-		.filter((name) => name.length > 0);
+/**
+ * Returns the branches reported as deleted by `git branch -d|-D <names...>`,
+ * from lines like "Deleted branch feature/x (was 1a2b3c4).".
+ */
+export function parseDeletedBranches(branchDeleteOutput: string): string[] {
+	return branchDeleteOutput
+		.split(/\r?\n/)
+		.map((line) => line.trim().match(/^Deleted branch (.+) \(was [0-9a-f]+\)\.$/)?.[1])
+		.filter((name): name is string => Boolean(name));
 }
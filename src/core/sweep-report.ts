@@ -0,0 +1,177 @@
+import type { SweepMode } from './sweep-logic';
+import type { DeleteResult } from './sweep-workflow';
+
+export type SweepReportKind = 'sweep' | 'stale' | 'all-repositories' | 'remote' | 'tags';
+
+export type SweepReportResult = 'deleted' | 'failed' | 'kept' | 'would delete' | 'cancelled';
+
+export type SweepReportBranch = {
+	readonly branch: string;
+	/** Detection reason as shown in the quick pick, e.g. "squash-merged into main". */
+	readonly reason: string;
+	readonly selected: boolean;
+	/** Undefined when the branch was not selected or the session ended before deleting. */
+	readonly result?: SweepReportResult;
+	readonly error?: string;
+};
+
+export type SweepReportRepository = {
+	readonly repository: string;
+	readonly branches: readonly SweepReportBranch[];
+};
+
+/**
+ * Structured record of one sweep session, exported as Markdown or JSON.
+ * Field order is stable so exports of different runs can be diffed.
+ */
+export type SweepReport = {
+	readonly kind: SweepReportKind;
+	/** e.g. "dry-run", "delete (-d)", "delete (-D)", "delete on remote". */
+	readonly mode: string;
+	readonly startedAt: string;
+	readonly finishedAt: string;
+	readonly repositories: readonly SweepReportRepository[];
+};
+
+export type SweepReportRecorder = {
+	addCandidates(repository: string, candidates: readonly { readonly branch: string; readonly reason: string }[]): void;
+	markSelected(repository: string, branches: readonly string[]): void;
+	/** Marks every selected branch as "would delete". */
+	markDryRun(repository: string): void;
+	recordResult(
+		repository: string,
+		result: Pick<DeleteResult, 'deleted' | 'failed'> & Partial<Pick<DeleteResult, 'cancelled'>>
+	): void;
+	finish(): SweepReport;
+};
+
+const KIND_TITLES: Record<SweepReportKind, string> = {
+	sweep: 'Sweep',
+	stale: 'Sweep stale branches',
+	'all-repositories': 'Sweep all repositories',
+	remote: 'Sweep remote branches',
+	tags: 'Sweep tags',
+};
+
+export function describeSweepMode(mode: SweepMode): string {
+	const base = mode.dryRun ? 'dry-run' : mode.forceDelete ? 'delete (-D)' : 'delete (-d)';
+	return mode.offline ? `${base}, offline` : base;
+}
+
+type MutableBranch = {
+	branch: string;
+	reason: string;
+	selected: boolean;
+	result?: SweepReportResult;
+	error?: string;
+};
+
+/**
+ * Collects what happened during a sweep session. Branches that were selected but neither
+ * deleted, failed nor cancelled (e.g. kept for unpushed commits) are reported as "kept".
+ */
+export function createSweepReportRecorder(
+	kind: SweepReportKind,
+	mode: string,
+	now: () => Date = () => new Date()
+): SweepReportRecorder {
+	const startedAt = now().toISOString();
+	const repositories = new Map<string, MutableBranch[]>();
+	const branchesOf = (repository: string): MutableBranch[] => {
+		let branches = repositories.get(repository);
+		if (!branches) {
+			branches = [];
+			repositories.set(repository, branches);
+		}
+		return branches;
+	};
+
+	return {
+		addCandidates(repository, candidates) {
+			branchesOf(repository).push(...candidates.map((c) => ({ branch: c.branch, reason: c.reason, selected: false })));
+		},
+		markSelected(repository, branches) {
+			for (const entry of branchesOf(repository)) {
+				entry.selected = branches.includes(entry.branch);
+			}
+		},
+		markDryRun(repository) {
+			branchesOf(repository)
+				.filter((entry) => entry.selected)
+				.forEach((entry) => {
+					entry.result = 'would delete';
+				});
+		},
+		recordResult(repository, result) {
+			for (const entry of branchesOf(repository).filter((e) => e.selected)) {
+				const failure = result.failed.find((f) => f.branch === entry.branch);
+				if (result.deleted.includes(entry.branch)) {
+					entry.result = 'deleted';
+				} else if (failure) {
+					entry.result = 'failed';
+					entry.error = failure.error;
+				} else if (result.cancelled?.includes(entry.branch)) {
+					entry.result = 'cancelled';
+				} else {
+					entry.result = 'kept';
+				}
+			}
+		},
+		finish() {
+			return {
+				kind,
+				mode,
+				startedAt,
+				finishedAt: now().toISOString(),
+				repositories: [...repositories].map(([repository, branches]) => ({
+					repository,
+					branches: branches.map((b) => ({ ...b })),
+				})),
+			};
+		},
+	};
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+/**
+ * Renders a report as Markdown: a summary list and one table per repository.
+ */
+export function formatReportAsMarkdown(report: SweepReport): string {
+	const lines = [
+		`# Git Sweep report: ${KIND_TITLES[report.kind]}`,
+		'',
+		`- Mode: ${report.mode}`,
+		`- Started: ${report.startedAt}`,
+		`- Finished: ${report.finishedAt}`,
+	];
+
+	for (const { repository, branches } of report.repositories) {
+		const count = (result: SweepReportResult) => branches.filter((b) => b.result === result).length;
+		lines.push(
+			'',
+			`## ${repository}`,
+			'',
+			`${branches.length} candidate(s), ${branches.filter((b) => b.selected).length} selected, ` +
+				`${count('deleted')} deleted, ${count('failed')} failed.`
+		);
+		if (branches.length === 0) {
+			continue;
+		}
+		lines.push('', '| Branch | Reason | Selected | Result |', '| --- | --- | --- | --- |');
+		for (const b of branches) {
+			const result = b.result === 'failed' && b.error ? `failed: ${b.error}` : b.result ?? '';
+			lines.push(
+				`| ${escapeTableCell(b.branch)} | ${escapeTableCell(b.reason)} | ${b.selected ? 'yes' : 'no'} | ${escapeTableCell(result)} |`
+			);
+		}
+	}
+
+	return `${lines.join('\n')}\n`;
+}
+
+export function formatReportAsJson(report: SweepReport): string {
+	return `${JSON.stringify(report, null, 2)}\n`;
+}
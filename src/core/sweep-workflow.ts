@@ -1,13 +1,43 @@
-import { parseGoneBranches, type SweepMode } from './sweep-logic';
+import { describeBranchDetails, loadBranchDetails, type BranchDetails } from './branch-details';
+import { goneBranchNames, listBranchRefs } from './branch-list';
+import { resolveDefaultBranch } from './default-branch';
+import { BRANCH_TIP_FORMAT, parseBranchTips, resolveJournalKey, toJournalEntry, type DeletionJournal, type DeletionJournalEntry } from './deletion-journal';
+import { classifyGitError, formatGitError, type GitErrorCategory } from './git-command';
+import { describeDetectionReason, detectMergedBranches, type SweepCandidate } from './merge-detection';
+import { findProtectedPattern } from './protected-branches';
+import { fetchAndPruneRemotes } from './remote-fetch';
+import { readSweepSettings, type ConfigurationLike, type SweepSettings } from './settings';
+import { OFFLINE_WARNING, parseDeletedBranches, type SweepMode } from './sweep-logic';
+import { describeStaleBranch, findStaleBranches } from './stale-detection';
+import { createSweepReportRecorder, describeSweepMode, type SweepReport, type SweepReportKind, type SweepReportRecorder } from './sweep-report';
+import { confirmUnpushedBranches } from './unpushed-check';
+import { confirmWorktreeRemoval, findBranchWorktrees } from './worktrees';
 
 export type QuickPickItemLike = {
 	readonly label: string;
 	readonly description?: string;
+	readonly detail?: string;
+	/** -1 renders the item as a group separator (vscode.QuickPickItemKind.Separator). */
+	readonly kind?: -1 | 0;
 	readonly picked?: boolean;
+	readonly buttons?: readonly QuickPickItemButtonLike[];
+};
+
+export type QuickPickItemButtonLike = {
+	/** Codicon id, e.g. "history" (vscode.ThemeIcon). */
+	readonly iconId: string;
+	readonly tooltip: string;
 };
 
 type ProgressOptions = {
 	readonly title: string;
+	/** Shows a cancel button; pressing it aborts the signal passed to the task. */
+	readonly cancellable?: boolean;
+};
+
+export type ProgressReporter = {
+	/** `increment` is a percentage of the whole task, as in vscode.Progress. */
+	report: (update: { readonly message?: string; readonly increment?: number }) => void;
 };
 
 export type SweepWorkflowDeps = {
@@ -16,9 +46,13 @@ export type SweepWorkflowDeps = {
 		show: (preserveFocus: boolean) => void;
 		appendLine: (line: string) => void;
 	};
-	readonly runGitCommand: (args: string[], cwd: string) => Promise<{ stdout: string; stderr: string }>;
+	/** Aborting `signal` kills the git process; the promise then rejects with an AbortError. */
+	readonly runGitCommand: (args: string[], cwd: string, signal?: AbortSignal) => Promise<{ stdout: string; stderr: string }>;
 	readonly ui: {
-		withProgress: <T>(options: ProgressOptions, task: () => Promise<T>) => PromiseLike<T>;
+		withProgress: <T>(
+			options: ProgressOptions,
+			task: (progress: ProgressReporter, signal: AbortSignal) => Promise<T>
+		) => PromiseLike<T>;
 		showQuickPick: (
 			items: QuickPickItemLike[],
 			options: {
@@ -27,14 +61,25 @@ export type SweepWorkflowDeps = {
 				readonly matchOnDescription: boolean;
 				readonly title: string;
 				readonly placeHolder: string;
+				/** Called when an item button is clicked; the quick pick stays open. */
+				readonly onDidTriggerItemButton?: (item: QuickPickItemLike, button: QuickPickItemButtonLike) => void;
 			}
 		) => PromiseLike<readonly QuickPickItemLike[] | QuickPickItemLike | undefined>;
 		showInformationMessage: (message: string) => void;
-		showErrorMessage: (message: string) => void;
+		/** Opens read-only text (e.g. a branch log or diff) beside the quick pick; item buttons need it. */
+		showTextDocument?: (content: string, language: 'log' | 'diff') => void | PromiseLike<void>;
+		/** Resolves to the clicked action, if any actions were given. */
+		showErrorMessage: (message: string, ...actions: string[]) => void | PromiseLike<string | undefined>;
 	};
+	/** When provided, every deleted branch is recorded so it can be restored later. */
+	readonly journal?: DeletionJournal;
+	/** The "gitSweepPro" configuration section; defaults apply when omitted. */
+	readonly config?: ConfigurationLike;
+	/** Receives a structured report of each session that listed candidates. */
+	readonly recordReport?: (report: SweepReport) => void;
 };
 
-function normalizeQuickPickSelection(
+export function normalizeQuickPickSelection(
 	selection: readonly QuickPickItemLike[] | QuickPickItemLike | undefined
 ): readonly QuickPickItemLike[] {
 	if (!selection) {
@@ -48,7 +93,437 @@ function normalizeQuickPickSelection(
 	return [selection as QuickPickItemLike];
 }
 
-export async function runSweepWorkflow(mode: SweepMode, deps: SweepWorkflowDeps): Promise<void> {
+/**
+ * Which branches a sweep offers:
+ * - tracking: gone upstreams, plus merged branches when enabled (pre-selected).
+ * - stale: branches whose last commit is older than staleAfterDays (never pre-selected).
+ */
+export type SweepDetection = 'tracking' | 'stale';
+
+/** The parts of SweepWorkflowDeps needed to list candidates, without any UI. */
+export type CandidateDeps = Pick<SweepWorkflowDeps, 'runGitCommand' | 'output' | 'config'>;
+
+export type CandidateOptions = {
+	/** Remotes were just fetched, so a missing remote HEAD ref may be queried from the server. */
+	readonly fetched?: boolean;
+	/** Never write to the repository: squash-merge detection is skipped (background check). */
+	readonly readOnly?: boolean;
+};
+
+export type SweepCandidates = {
+	readonly candidates: readonly SweepCandidate[];
+	/** Default branch name used to describe merged candidates, when merged-branch detection ran. */
+	readonly defaultBranchName?: string;
+};
+
+/**
+ * Lists the branches of one repository that may be swept: gone upstreams, plus merged branches
+ * when enabled. Protected branches are removed and logged as skipped.
+ */
+export async function collectSweepCandidates(
+	repoRoot: string,
+	deps: CandidateDeps,
+	options: CandidateOptions = {}
+): Promise<SweepCandidates> {
+	const runGit = (args: string[]) => deps.runGitCommand(args, repoRoot);
+	const candidates: SweepCandidate[] = goneBranchNames(await listBranchRefs(runGit)).map((branch) => ({
+		branch,
+		reason: 'gone',
+	}));
+
+	const settings = readSweepSettings(deps.config);
+	let defaultBranchName: string | undefined;
+	if (settings.detectMergedBranches) {
+		const defaultBranch = await resolveDefaultBranch(runGit, { ...settings, queryRemote: options.fetched });
+		if (defaultBranch) {
+			defaultBranchName = defaultBranch.name;
+			const exclude = new Set([defaultBranch.name, ...candidates.map((c) => c.branch)]);
+			candidates.push(
+				...(await detectMergedBranches(runGit, `${defaultBranch.remote}/${defaultBranch.name}`, exclude, {
+					skipSquash: options.readOnly,
+				}))
+			);
+		} else {
+			deps.output.appendLine('No remote default branch found; skipping merged-branch detection.');
+		}
+	}
+
+	return {
+		candidates: await annotateWorktrees(repoRoot, filterProtected(candidates, settings, deps), deps),
+		defaultBranchName,
+	};
+}
+
+/**
+ * Lists local branches whose last commit is older than the staleAfterDays setting,
+ * with age, author and ahead/behind counts against the default branch.
+ */
+export async function collectStaleCandidates(
+	repoRoot: string,
+	deps: CandidateDeps,
+	options: CandidateOptions = {}
+): Promise<SweepCandidates> {
+	const settings = readSweepSettings(deps.config);
+	const runGit = (args: string[]) => deps.runGitCommand(args, repoRoot);
+	const defaultBranch = await resolveDefaultBranch(runGit, { ...settings, queryRemote: options.fetched });
+	const staleBranches = await findStaleBranches(runGit, {
+		now: new Date(),
+		staleAfterDays: settings.staleAfterDays,
+		baseRef: defaultBranch ? `${defaultBranch.remote}/${defaultBranch.name}` : undefined,
+		exclude: new Set(defaultBranch ? [defaultBranch.name] : []),
+	});
+
+	const candidates: SweepCandidate[] = staleBranches.map((stale) => ({
+		branch: stale.branch,
+		reason: 'stale',
+		details: describeStaleBranch(stale, defaultBranch?.name),
+	}));
+
+	return {
+		candidates: await annotateWorktrees(repoRoot, filterProtected(candidates, settings, deps), deps),
+		defaultBranchName: defaultBranch?.name,
+	};
+}
+
+function filterProtected(
+	candidates: readonly SweepCandidate[],
+	settings: SweepSettings,
+	deps: CandidateDeps
+): SweepCandidate[] {
+	return candidates.filter((candidate) => {
+		const pattern = findProtectedPattern(candidate.branch, settings.protectedBranches);
+		if (pattern) {
+			deps.output.appendLine(`[protected] ${candidate.branch}: skipped (matches "${pattern}")`);
+		}
+		return !pattern;
+	});
+}
+
+async function annotateWorktrees(
+	repoRoot: string,
+	candidates: SweepCandidate[],
+	deps: CandidateDeps
+): Promise<SweepCandidate[]> {
+	if (candidates.length === 0) {
+		return candidates;
+	}
+	const worktrees = await findBranchWorktrees((args) => deps.runGitCommand(args, repoRoot));
+	return candidates.map((candidate) => {
+		const worktree = worktrees.get(candidate.branch);
+		return worktree ? { ...candidate, worktreePath: worktree.path } : candidate;
+	});
+}
+
+/**
+ * Builds the quick-pick item for a candidate. Stale branches may hold unpushed work and
+ * deleting a branch checked out in a worktree removes that worktree, so neither is pre-selected.
+ * With branch details, the second line shows the last commit, its age and the (former) upstream.
+ */
+export function toCandidateQuickPickItem(
+	candidate: SweepCandidate,
+	defaultBranchName?: string,
+	details?: BranchDetails,
+	now: Date = new Date()
+): QuickPickItemLike {
+	return {
+		label: candidate.branch,
+		description: [
+			describeDetectionReason(candidate.reason, defaultBranchName),
+			candidate.details,
+			candidate.worktreePath ? `checked out in ${candidate.worktreePath}` : undefined,
+		]
+			.filter(Boolean)
+			.join(' · '),
+		...(details ? { detail: describeBranchDetails(details, now) } : {}),
+		picked: candidate.reason !== 'stale' && !candidate.worktreePath,
+	};
+}
+
+const SHOW_LOG_BUTTON: QuickPickItemButtonLike = { iconId: 'history', tooltip: 'Show branch log' };
+const SHOW_DIFF_BUTTON: QuickPickItemButtonLike = { iconId: 'diff', tooltip: 'Show diff against the default branch' };
+
+/**
+ * Log and diff buttons for candidate items; none when the host cannot open text documents.
+ */
+export function candidateItemButtons(deps: Pick<SweepWorkflowDeps, 'ui'>): { buttons?: readonly QuickPickItemButtonLike[] } {
+	return deps.ui.showTextDocument ? { buttons: [SHOW_LOG_BUTTON, SHOW_DIFF_BUTTON] } : {};
+}
+
+/**
+ * Opens the log of a candidate, or its diff against the default branch (HEAD when unknown),
+ * from the quick-pick item buttons.
+ */
+export async function showCandidateContext(
+	repoRoot: string,
+	branch: string,
+	button: QuickPickItemButtonLike,
+	deps: SweepWorkflowDeps
+): Promise<void> {
+	const runGit = (args: string[]) => deps.runGitCommand(args, repoRoot);
+	try {
+		if (button.iconId === SHOW_LOG_BUTTON.iconId) {
+			const log = await runGit(['log', '--no-color', '--max-count=50', '--format=%h %ad %an%n    %s', '--date=short', `refs/heads/${branch}`]);
+			await deps.ui.showTextDocument?.(log.stdout, 'log');
+		} else {
+			const defaultBranch = await resolveDefaultBranch(runGit, readSweepSettings(deps.config));
+			const base = defaultBranch ? `${defaultBranch.remote}/${defaultBranch.name}` : 'HEAD';
+			const diff = await runGit(['diff', '--no-color', '--stat', '--patch', `${base}...refs/heads/${branch}`]);
+			await deps.ui.showTextDocument?.(diff.stdout || `No changes between ${base} and ${branch}.\n`, 'diff');
+		}
+	} catch (error) {
+		deps.ui.showErrorMessage(formatGitError(classifyGitError(error)));
+	}
+}
+
+export type DeleteFailure = {
+	readonly branch: string;
+	readonly error: string;
+	readonly category: GitErrorCategory;
+};
+
+export type DeleteResult = {
+	readonly deleted: readonly string[];
+	readonly failed: readonly DeleteFailure[];
+	/** Branches the user chose to keep when asked about unpushed commits. */
+	readonly skipped: readonly string[];
+	/** Branches kept because they are checked out in another worktree that was not removed. */
+	readonly keptInWorktrees: readonly string[];
+	/** Branches not attempted because the deletion was cancelled. */
+	readonly cancelled: readonly string[];
+};
+
+/** Refs per `git branch -d` or `git tag -d` invocation; keeps the command line well below Windows' 32K limit. */
+export const DELETE_BATCH_SIZE = 50;
+
+/**
+ * Branches of `batch` that still exist after a batch `git branch -d`. Read from the refs rather than
+ * git's (translated) "Deleted branch" messages; those are only parsed if the refs cannot be listed.
+ */
+async function findRemainingBranches(
+	repoRoot: string,
+	batch: readonly string[],
+	deleteOutput: string,
+	deps: Pick<SweepWorkflowDeps, 'runGitCommand'>
+): Promise<Set<string>> {
+	try {
+		const refs = (
+			await deps.runGitCommand(
+				['for-each-ref', '--format=%(refname)', ...batch.map((branch) => `refs/heads/${branch}`)],
+				repoRoot
+			)
+		).stdout
+			.split(/\r?\n/)
+			.map((ref) => ref.trim().replace(/^refs\/heads\//, ''));
+		return new Set(batch.filter((branch) => refs.includes(branch)));
+	} catch {
+		const deleted = new Set(parseDeletedBranches(deleteOutput));
+		return new Set(batch.filter((branch) => !deleted.has(branch)));
+	}
+}
+
+/**
+ * Deletes branches under a cancellable progress notification, logging failures, and records
+ * successful deletions in the journal. Branches are deleted in batches with one `git branch` call;
+ * branches that still exist afterwards are retried one by one to get their individual error.
+ * Cancelling stops before the next batch or retry; a running `git branch` is left to finish so
+ * no ref update is interrupted.
+ * Branches checked out in other worktrees are only deleted once their (clean) worktree is removed.
+ * Force deletes first ask what to do with branches holding commits that exist on no remote.
+ */
+export async function deleteBranches(
+	repoRoot: string,
+	branchNames: readonly string[],
+	mode: SweepMode,
+	deps: SweepWorkflowDeps
+): Promise<DeleteResult> {
+	const deleteFlag = mode.forceDelete ? '-D' : '-d';
+	const worktrees = await findBranchWorktrees((args) => deps.runGitCommand(args, repoRoot));
+	const { toDelete: unblocked, kept: keptInWorktrees } = worktrees.size > 0
+		? await confirmWorktreeRemoval(repoRoot, branchNames, worktrees, deps)
+		: { toDelete: [...branchNames], kept: [] };
+	const tips = deps.journal || mode.forceDelete
+		? parseBranchTips((await deps.runGitCommand(['for-each-ref', BRANCH_TIP_FORMAT, 'refs/heads'], repoRoot)).stdout)
+		: undefined;
+	const { toDelete, skipped } = mode.forceDelete
+		? await confirmUnpushedBranches(repoRoot, unblocked, tips, deps)
+		: { toDelete: unblocked, skipped: [] };
+	const deleted: string[] = [];
+	const failed: DeleteFailure[] = [];
+	const cancelled: string[] = [];
+	const journalEntries: DeletionJournalEntry[] = [];
+
+	const markDeleted = (branch: string) => {
+		deleted.push(branch);
+		const tip = tips?.get(branch);
+		if (tip) {
+			journalEntries.push(toJournalEntry(tip, mode.forceDelete ? 'force' : 'safe', new Date()));
+		}
+	};
+	const deleteOne = async (branch: string) => {
+		try {
+			await deps.runGitCommand(['branch', deleteFlag, branch], repoRoot);
+			markDeleted(branch);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			deps.output.appendLine(`[delete-failed] ${branch}: ${message}`);
+			failed.push({ branch, error: message, category: classifyGitError(error).category });
+		}
+	};
+
+	if (toDelete.length > 0) {
+		await deps.ui.withProgress(
+			{ title: `Git Sweep Pro: Deleting ${toDelete.length} branch(es)...`, cancellable: true },
+			async (progress, signal) => {
+				const retry: string[] = [];
+				for (let start = 0; start < toDelete.length; start += DELETE_BATCH_SIZE) {
+					if (signal.aborted) {
+						cancelled.push(...toDelete.slice(start));
+						break;
+					}
+					const batch = toDelete.slice(start, start + DELETE_BATCH_SIZE);
+					const increment = (100 * batch.length) / toDelete.length;
+					if (batch.length === 1) {
+						progress.report({ message: `Deleting ${start + 1}/${toDelete.length}: ${batch[0]}`, increment });
+						await deleteOne(batch[0]);
+						continue;
+					}
+
+					progress.report({ message: `Deleting ${start + 1}-${start + batch.length}/${toDelete.length}`, increment });
+					let output: string;
+					try {
+						output = (await deps.runGitCommand(['branch', deleteFlag, ...batch], repoRoot)).stdout;
+					} catch (error) {
+						/* git deletes what it can and exits non-zero if any branch failed */
+						output = (error as { stdout?: string }).stdout ?? '';
+					}
+					const remaining = await findRemainingBranches(repoRoot, batch, output, deps);
+					for (const branch of batch) {
+						if (remaining.has(branch)) {
+							retry.push(branch);
+						} else {
+							markDeleted(branch);
+						}
+					}
+				}
+
+				for (const [index, branch] of retry.entries()) {
+					if (signal.aborted) {
+						cancelled.push(...retry.slice(index));
+						break;
+					}
+					progress.report({ message: `Retrying ${index + 1}/${retry.length}: ${branch}` });
+					await deleteOne(branch);
+				}
+			}
+		);
+	}
+	if (cancelled.length > 0) {
+		deps.output.appendLine(`[cancelled] ${cancelled.length} branch(es) not deleted: ${cancelled.join(', ')}`);
+	}
+
+	if (deps.journal && journalEntries.length > 0) {
+		const journalKey = await resolveJournalKey((args) => deps.runGitCommand(args, repoRoot), repoRoot);
+		await deps.journal.record(journalKey, journalEntries);
+		deps.output.appendLine(`Recorded ${journalEntries.length} deleted branch(es) in the restore journal.`);
+	}
+
+	return { deleted, failed, skipped, keptInWorktrees, cancelled };
+}
+
+/**
+ * Suffix for summary notifications when branches were kept because of unpushed commits or worktrees.
+ */
+export function describeSkipped(result: Pick<DeleteResult, 'skipped' | 'keptInWorktrees'>): string {
+	return [
+		result.skipped.length > 0 ? ` Kept ${result.skipped.length} branch(es) with unpushed commits.` : '',
+		result.keptInWorktrees.length > 0
+			? ` Kept ${result.keptInWorktrees.length} branch(es) checked out in other worktrees.`
+			: '',
+	].join('');
+}
+
+const REVIEW_UNMERGED_ACTION = 'Review unmerged branches';
+
+/** The line of a git failure that explains it ("error: ..." or "fatal: ..."), else the first line. */
+function summarizeGitFailure(message: string): string {
+	const lines = message.split(/\r?\n/).map((line) => line.trim());
+	return lines.find((line) => /^(error|fatal):/i.test(line)) ?? lines[0];
+}
+
+/**
+ * Lists branches that safe delete refused as not fully merged, with git's reason and the number of
+ * commits not in HEAD (what `git branch -d` checks for a gone upstream), and force deletes the ones
+ * the user picks. Force deletion still runs the unpushed-commits check. Runs after the sweep session
+ * has ended, so it records its own report.
+ */
+async function reviewUnmergedBranches(
+	workspaceRoot: string,
+	refused: readonly DeleteFailure[],
+	mode: SweepMode,
+	kind: SweepReportKind,
+	deps: SweepWorkflowDeps
+): Promise<void> {
+	const counts = await Promise.all(
+		refused.map(({ branch }) =>
+			deps
+				.runGitCommand(['rev-list', '--count', `HEAD..refs/heads/${branch}`], workspaceRoot)
+				.then((result) => Number.parseInt(result.stdout.trim(), 10))
+				.catch(() => Number.NaN)
+		)
+	);
+	const items: QuickPickItemLike[] = refused.map((failure, i) => ({
+		label: failure.branch,
+		description: Number.isNaN(counts[i]) ? 'not fully merged' : `${counts[i]} commit(s) not merged into HEAD`,
+		detail: summarizeGitFailure(failure.error),
+		picked: false,
+	}));
+
+	const selected = normalizeQuickPickSelection(
+		await deps.ui.showQuickPick(items, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title: 'Git Sweep Pro: Force delete (-D) branches that were not fully merged',
+			placeHolder: 'Their unmerged commits are lost unless they exist elsewhere. Check the ones to force delete.',
+		})
+	).map((item) => item.label);
+	if (selected.length === 0) {
+		deps.output.appendLine('No unmerged branches selected for force delete.');
+		return;
+	}
+
+	deps.output.appendLine(`[DELETE] Force deleting ${selected.length} branch(es) that were not fully merged:`);
+	for (const branch of selected) {
+		deps.output.appendLine(`- ${branch}`);
+	}
+	const forceMode = { ...mode, forceDelete: true };
+	const report = createSweepReportRecorder(kind, describeSweepMode(forceMode));
+	report.addCandidates(
+		workspaceRoot,
+		items.map((item) => ({ branch: item.label, reason: item.description ?? '' }))
+	);
+	report.markSelected(workspaceRoot, selected);
+	try {
+		const forced = await deleteBranches(workspaceRoot, selected, forceMode, deps);
+		report.recordResult(workspaceRoot, forced);
+		const attempted = selected.length - forced.skipped.length - forced.keptInWorktrees.length;
+		if (forced.failed.length === 0 && forced.cancelled.length === 0) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Force deleted ${forced.deleted.length} branch(es).${describeSkipped(forced)}`);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Force deleted ${forced.deleted.length}/${attempted} branch(es).${describeSkipped(forced)} See "Git Sweep" output for details.`
+			);
+		}
+	} finally {
+		deps.recordReport?.(report.finish());
+	}
+}
+
+export async function runSweepWorkflow(
+	mode: SweepMode,
+	deps: SweepWorkflowDeps,
+	detection: SweepDetection = 'tracking'
+): Promise<void> {
 	const workspaceRoot = deps.getWorkspaceRoot();
 	if (!workspaceRoot) {
 		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
@@ -59,35 +534,59 @@ export async function runSweepWorkflow(mode: SweepMode, deps: SweepWorkflowDeps)
 	deps.output.appendLine('--- Git Sweep session started ---');
 	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
 	deps.output.appendLine(`Mode: ${mode.dryRun ? 'dry-run' : 'delete'}, delete flag: ${mode.forceDelete ? '-D' : '-d'}`);
+	if (detection === 'stale') {
+		deps.output.appendLine(`Detection: branches with no commits in ${readSweepSettings(deps.config).staleAfterDays} days`);
+	}
+	const reportKind: SweepReportKind = detection === 'stale' ? 'stale' : 'sweep';
+	const report = createSweepReportRecorder(reportKind, describeSweepMode(mode));
+	let reportStarted = false;
 
 	try {
-		await deps.ui.withProgress(
-			{
-				title: 'Git Sweep Pro: Fetching and pruning remote references...',
-			},
-			() => deps.runGitCommand(['fetch', '-p'], workspaceRoot)
-		);
+		if (mode.offline) {
+			deps.output.appendLine(OFFLINE_WARNING);
+		} else {
+			await deps.ui.withProgress(
+				{
+					title: 'Git Sweep Pro: Fetching and pruning remote references...',
+					cancellable: true,
+				},
+				(_progress, signal) => fetchAndPruneRemotes(workspaceRoot, deps, signal)
+			);
+		}
 
-		const branchResult = await deps.runGitCommand(['branch', '-vv'], workspaceRoot);
-		const goneBranches = parseGoneBranches(branchResult.stdout);
+		const { candidates, defaultBranchName } = detection === 'stale'
+			? await collectStaleCandidates(workspaceRoot, deps, { fetched: !mode.offline })
+			: await collectSweepCandidates(workspaceRoot, deps, { fetched: !mode.offline });
+		const details = candidates.length > 0
+			? await loadBranchDetails((args) => deps.runGitCommand(args, workspaceRoot)).catch(() => undefined)
+			: undefined;
+		const quickPickItems: QuickPickItemLike[] = candidates.map((candidate) => ({
+			...toCandidateQuickPickItem(candidate, defaultBranchName, details?.get(candidate.branch)),
+			...candidateItemButtons(deps),
+		}));
+		report.addCandidates(
+			workspaceRoot,
+			quickPickItems.map((item) => ({ branch: item.label, reason: item.description ?? '' }))
+		);
+		reportStarted = true;
 
-		if (goneBranches.length === 0) {
-			deps.output.appendLine('No stale tracked branches found.');
+		if (candidates.length === 0) {
+			deps.output.appendLine(detection === 'stale' ? 'No stale branches found.' : 'No stale tracked branches found.');
 			deps.ui.showInformationMessage('Git Sweep Pro: No stale branches found.');
 			return;
 		}
 
-		const quickPickItems: QuickPickItemLike[] = goneBranches.map((branch) => ({
-			label: branch,
-			picked: true,
-		}));
-
 		const selected = await deps.ui.showQuickPick(quickPickItems, {
 			canPickMany: true,
 			ignoreFocusOut: true,
 			matchOnDescription: true,
-			title: mode.dryRun ? 'Git Sweep Pro: Select branches to include in dry run' : 'Git Sweep Pro: Select branches to delete',
-			placeHolder: 'All stale tracked branches are pre-selected. Uncheck any you want to keep.',
+			title:
+				(mode.dryRun ? 'Git Sweep Pro: Select branches to include in dry run' : 'Git Sweep Pro: Select branches to delete') +
+				(mode.offline ? ' (offline: not fetched, may be stale)' : ''),
+			placeHolder: detection === 'stale'
+				? 'Stale branches may contain unpushed work, so none are pre-selected. Check the ones to remove.'
+				: 'All stale tracked branches are pre-selected. Uncheck any you want to keep.',
+			onDidTriggerItemButton: (item, button) => void showCandidateContext(workspaceRoot, item.label, button, deps),
 		});
 
 		const selectedItems = normalizeQuickPickSelection(selected);
@@ -99,50 +598,68 @@ export async function runSweepWorkflow(mode: SweepMode, deps: SweepWorkflowDeps)
 		}
 
 		const branchNames = selectedItems.map((item) => item.label);
+		report.markSelected(workspaceRoot, branchNames);
 		deps.output.appendLine(`${mode.dryRun ? '[DRY RUN]' : '[DELETE]'} Selected branches:`);
 		for (const branch of branchNames) {
 			deps.output.appendLine(`- ${branch}`);
 		}
 
 		if (mode.dryRun) {
+			report.markDryRun(workspaceRoot);
 			deps.ui.showInformationMessage(
 				`Git Sweep Pro (dry run): ${branchNames.length} branch(es) would be deleted.`
 			);
 			return;
 		}
 
-		let deletedCount = 0;
-		const deleteFlag = mode.forceDelete ? '-D' : '-d';
+		const result = await deleteBranches(workspaceRoot, branchNames, mode, deps);
+		report.recordResult(workspaceRoot, result);
+		const attempted = branchNames.length - result.skipped.length - result.keptInWorktrees.length;
+		const unmerged = mode.forceDelete ? [] : result.failed.filter((failure) => failure.category === 'not-fully-merged');
 
-		for (const branch of branchNames) {
-			try {
-				await deps.runGitCommand(['branch', deleteFlag, branch], workspaceRoot);
-				deletedCount += 1;
-			} catch (error) {
-				const message = error instanceof Error ? error.message : String(error);
-				deps.output.appendLine(`[delete-failed] ${branch}: ${message}`);
+		if (result.cancelled.length > 0) {
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro: Cancelled after deleting ${result.deleted.length}/${attempted} branch(es); ` +
+					`${result.cancelled.length} not deleted.${describeSkipped(result)} See "Git Sweep" output for details.`
+			);
+		} else if (result.failed.length === 0) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Deleted ${result.deleted.length} branch(es).${describeSkipped(result)}`);
+		} else {
+			const message =
+				`Git Sweep Pro: Deleted ${result.deleted.length}/${attempted} branch(es).${describeSkipped(result)}` +
+				(unmerged.length > 0 ? ` ${unmerged.length} not fully merged.` : '') +
+				' See "Git Sweep" output for details.';
+			if (unmerged.length === 0) {
+				deps.ui.showErrorMessage(message);
+			} else {
+				/* Not awaited: callers such as the post-pull-request flow continue while the notification is open */
+				void Promise.resolve(deps.ui.showErrorMessage(message, REVIEW_UNMERGED_ACTION))
+					.then((action) =>
+						action === REVIEW_UNMERGED_ACTION
+							? reviewUnmergedBranches(workspaceRoot, unmerged, mode, reportKind, deps)
+							: undefined
+					)
+					.catch((error: unknown) => {
+						deps.ui.showErrorMessage(formatGitError(classifyGitError(error)));
+					});
 			}
 		}
-
-		if (deletedCount === branchNames.length) {
-			deps.ui.showInformationMessage(`Git Sweep Pro: Deleted ${deletedCount} branch(es).`);
-		} else {
+	} catch (error) {
+		const info = classifyGitError(error);
+		if (info.category === 'cancelled') {
+			deps.output.appendLine('Sweep cancelled.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Sweep cancelled. No branches were deleted.');
+		} else if (info.category === 'timeout' || info.category === 'network') {
 			deps.ui.showErrorMessage(
-				`Git Sweep Pro: Deleted ${deletedCount}/${branchNames.length} branch(es). See "Git Sweep" output for details.`
+				`${formatGitError(info)} To sweep from the last fetched state, use "Git Sweep Pro: Run Offline".`
 			);
-		}
-	} catch (error) {
-		const message = error instanceof Error ? error.message : String(error);
-		const lowerMessage = message.toLowerCase();
-
-		if (lowerMessage.includes('not a git repository')) {
-			deps.ui.showErrorMessage('Git Sweep Pro: The selected workspace folder is not a Git repository.');
-		} else if (lowerMessage.includes('command not found') || lowerMessage.includes('enoent')) {
-			deps.ui.showErrorMessage('Git Sweep Pro: Git is not installed or not available in PATH.');
 		} else {
-			deps.ui.showErrorMessage(`Git Sweep Pro failed: ${message}`);
+			deps.ui.showErrorMessage(formatGitError(info));
 		}
 	} finally {
+		if (reportStarted) {
+			deps.recordReport?.(report.finish());
+		}
 		deps.output.appendLine('--- Git Sweep session ended ---');
 	}
 }
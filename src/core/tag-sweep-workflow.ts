@@ -0,0 +1,249 @@
+import { classifyGitError, formatGitError } from './git-command';
+import { findProtectedPattern } from './protected-branches';
+import { listRemotes } from './remote-fetch';
+import { readSweepSettings } from './settings';
+import type { SweepMode } from './sweep-logic';
+import { createSweepReportRecorder } from './sweep-report';
+import {
+	DELETE_BATCH_SIZE,
+	normalizeQuickPickSelection,
+	type DeleteFailure,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from './sweep-workflow';
+
+const TAG_PREFIX = 'refs/tags/';
+
+/**
+ * Parses `git ls-remote --tags <remote>` output ("<sha>\trefs/tags/<name>", plus a peeled
+ * "<name>^{}" line for annotated tags) into tag names.
+ */
+export function parseRemoteTags(lsRemoteOutput: string): Set<string> {
+	const tags = new Set<string>();
+	for (const line of lsRemoteOutput.split(/\r?\n/)) {
+		const ref = line.split('\t')[1]?.trim();
+		if (ref?.startsWith(TAG_PREFIX)) {
+			tags.add(ref.slice(TAG_PREFIX.length).replace(/\^\{\}$/, ''));
+		}
+	}
+	return tags;
+}
+
+/**
+ * Lists local tag names with `git for-each-ref`.
+ */
+export async function listLocalTags(repoRoot: string, deps: Pick<SweepWorkflowDeps, 'runGitCommand'>): Promise<string[]> {
+	return (await deps.runGitCommand(['for-each-ref', '--format=%(refname)', 'refs/tags'], repoRoot)).stdout
+		.split(/\r?\n/)
+		.map((ref) => ref.trim())
+		.filter((ref) => ref.startsWith(TAG_PREFIX))
+		.map((ref) => ref.slice(TAG_PREFIX.length));
+}
+
+/**
+ * Tags of `batch` that still exist after a batch `git tag -d`, read from the refs.
+ */
+async function findRemainingTags(
+	repoRoot: string,
+	batch: readonly string[],
+	deps: Pick<SweepWorkflowDeps, 'runGitCommand'>
+): Promise<Set<string>> {
+	const refs = (
+		await deps.runGitCommand(['for-each-ref', '--format=%(refname)', ...batch.map((tag) => `${TAG_PREFIX}${tag}`)], repoRoot)
+	).stdout
+		.split(/\r?\n/)
+		.map((ref) => ref.trim());
+	return new Set(batch.filter((tag) => refs.includes(`${TAG_PREFIX}${tag}`)));
+}
+
+/**
+ * Deletes local tags that exist on none of the remotes. `git fetch -p` never prunes tags, so
+ * tags of deleted release candidates pile up locally. Protected tags (`v*` by default) are never
+ * offered. Deleted tags are not recorded in the deletion journal.
+ */
+export async function runTagSweepWorkflow(mode: Pick<SweepMode, 'dryRun'>, deps: SweepWorkflowDeps): Promise<void> {
+	const workspaceRoot = deps.getWorkspaceRoot();
+	if (!workspaceRoot) {
+		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
+		return;
+	}
+
+	deps.output.show(true);
+	deps.output.appendLine('--- Git Sweep (tags) session started ---');
+	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
+	const modeLabel = mode.dryRun ? 'dry-run' : 'delete (tag -d)';
+	deps.output.appendLine(`Mode: ${modeLabel}`);
+	const report = createSweepReportRecorder('tags', modeLabel);
+	let reportStarted = false;
+
+	try {
+		const remotes = await listRemotes(workspaceRoot, deps);
+		if (remotes.length === 0) {
+			deps.output.appendLine('No remote configured.');
+			deps.ui.showErrorMessage('Git Sweep Pro: No remote configured to compare tags with.');
+			return;
+		}
+		deps.output.appendLine(`Remotes: ${remotes.join(', ')}`);
+		const remoteLabel = remotes.length === 1 ? remotes[0] : 'any remote';
+
+		/* A tag is only offered when no remote has it, so every remote must answer */
+		const remoteTags = await deps.ui.withProgress(
+			{ title: 'Git Sweep Pro: Listing remote tags...', cancellable: true },
+			async (progress, signal) => {
+				const tags = new Set<string>();
+				for (const remote of remotes) {
+					progress.report({ message: remote });
+					const output = (await deps.runGitCommand(['ls-remote', '--tags', remote], workspaceRoot, signal)).stdout;
+					parseRemoteTags(output).forEach((tag) => tags.add(tag));
+				}
+				return tags;
+			}
+		);
+
+		const { protectedTags } = readSweepSettings(deps.config);
+		const candidates = (await listLocalTags(workspaceRoot, deps))
+			.filter((tag) => !remoteTags.has(tag))
+			.filter((tag) => {
+				const pattern = findProtectedPattern(tag, protectedTags);
+				if (pattern) {
+					deps.output.appendLine(`[protected] ${tag}: skipped (matches "${pattern}")`);
+				}
+				return !pattern;
+			});
+		const reason = `not on ${remoteLabel}`;
+		report.addCandidates(
+			workspaceRoot,
+			candidates.map((tag) => ({ branch: tag, reason }))
+		);
+		reportStarted = true;
+
+		if (candidates.length === 0) {
+			deps.output.appendLine(`No local-only tags found (compared with ${remotes.join(', ')}).`);
+			deps.ui.showInformationMessage(`Git Sweep Pro: No local tags missing on ${remoteLabel}.`);
+			return;
+		}
+
+		const quickPickItems: QuickPickItemLike[] = candidates.map((tag) => ({
+			label: tag,
+			description: reason,
+			picked: false,
+		}));
+
+		const selected = await deps.ui.showQuickPick(quickPickItems, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title: mode.dryRun
+				? 'Git Sweep Pro: Select tags to include in dry run'
+				: `Git Sweep Pro: Select local tags to delete (missing on ${remoteLabel})`,
+			placeHolder: 'Check the local-only tags to delete.',
+		});
+
+		const tags = normalizeQuickPickSelection(selected)
+			.map((item) => item.label)
+			.filter((tag) => candidates.includes(tag));
+
+		if (tags.length === 0) {
+			deps.output.appendLine('Operation cancelled or no tags selected.');
+			deps.ui.showInformationMessage('Git Sweep Pro: No tags selected.');
+			return;
+		}
+
+		report.markSelected(workspaceRoot, tags);
+		deps.output.appendLine(`${mode.dryRun ? '[DRY RUN]' : '[DELETE]'} Selected tags:`);
+		for (const tag of tags) {
+			deps.output.appendLine(`- ${tag}`);
+		}
+
+		if (mode.dryRun) {
+			report.markDryRun(workspaceRoot);
+			deps.ui.showInformationMessage(`Git Sweep Pro (dry run): ${tags.length} tag(s) would be deleted.`);
+			return;
+		}
+
+		const deleted: string[] = [];
+		const failed: DeleteFailure[] = [];
+		const cancelled: string[] = [];
+		await deps.ui.withProgress(
+			{ title: `Git Sweep Pro: Deleting ${tags.length} tag(s)...`, cancellable: true },
+			async (progress, signal) => {
+				/* No signal on `git tag -d`: a running deletion is left to finish so no ref update is interrupted */
+				const deleteOne = async (tag: string) => {
+					try {
+						await deps.runGitCommand(['tag', '-d', tag], workspaceRoot);
+						deleted.push(tag);
+						deps.output.appendLine(`Deleted tag: ${tag}`);
+					} catch (error) {
+						const message = error instanceof Error ? error.message : String(error);
+						failed.push({ branch: tag, error: message, category: classifyGitError(error).category });
+						deps.output.appendLine(`[delete-failed] ${tag}: ${message}`);
+					}
+				};
+
+				const retry: string[] = [];
+				for (let start = 0; start < tags.length; start += DELETE_BATCH_SIZE) {
+					if (signal.aborted) {
+						cancelled.push(...tags.slice(start));
+						return;
+					}
+					const batch = tags.slice(start, start + DELETE_BATCH_SIZE);
+					const increment = (100 * batch.length) / tags.length;
+					if (batch.length === 1) {
+						progress.report({ message: `Deleting ${start + 1}/${tags.length}: ${batch[0]}`, increment });
+						await deleteOne(batch[0]);
+						continue;
+					}
+
+					progress.report({ message: `Deleting ${start + 1}-${start + batch.length}/${tags.length}`, increment });
+					/* git deletes what it can and exits non-zero if any tag failed */
+					await deps.runGitCommand(['tag', '-d', ...batch], workspaceRoot).catch(() => undefined);
+					const remaining = await findRemainingTags(workspaceRoot, batch, deps);
+					for (const tag of batch) {
+						if (remaining.has(tag)) {
+							retry.push(tag);
+						} else {
+							deleted.push(tag);
+							deps.output.appendLine(`Deleted tag: ${tag}`);
+						}
+					}
+				}
+
+				for (const [index, tag] of retry.entries()) {
+					if (signal.aborted) {
+						cancelled.push(...retry.slice(index));
+						return;
+					}
+					progress.report({ message: `Retrying ${index + 1}/${retry.length}: ${tag}` });
+					await deleteOne(tag);
+				}
+			}
+		);
+		report.recordResult(workspaceRoot, { deleted, failed, cancelled });
+
+		if (cancelled.length > 0) {
+			deps.output.appendLine(`[cancelled] ${cancelled.length} tag(s) not deleted: ${cancelled.join(', ')}`);
+			deps.ui.showInformationMessage(
+				`Git Sweep Pro: Cancelled after deleting ${deleted.length}/${tags.length} tag(s); ${cancelled.length} not deleted.`
+			);
+		} else if (failed.length === 0) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Deleted ${deleted.length} tag(s).`);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Deleted ${deleted.length}/${tags.length} tag(s). See "Git Sweep" output for details.`
+			);
+		}
+	} catch (error) {
+		const info = classifyGitError(error);
+		if (info.category === 'cancelled') {
+			deps.output.appendLine('Tag sweep cancelled.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Tag sweep cancelled. No tags were deleted.');
+		} else {
+			deps.ui.showErrorMessage(formatGitError(info));
+		}
+	} finally {
+		if (reportStarted) {
+			deps.recordReport?.(report.finish());
+		}
+		deps.output.appendLine('--- Git Sweep (tags) session ended ---');
+	}
+}
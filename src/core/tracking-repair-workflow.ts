@@ -0,0 +1,144 @@
+import { listBranchRefs, type BranchRef } from './branch-list';
+import { classifyGitError, formatGitError } from './git-command';
+import { fetchAndPruneRemotes, listRemotes } from './remote-fetch';
+import { readSweepSettings } from './settings';
+import { normalizeQuickPickSelection, type QuickPickItemLike, type SweepWorkflowDeps } from './sweep-workflow';
+
+export type TrackingRepair = {
+	readonly branch: string;
+	/** Remote-tracking branch to set as upstream, e.g. "origin/feature/x". */
+	readonly upstream: string;
+	/** "no-upstream": pushed without `-u`; "upstream-gone": the configured upstream no longer exists. */
+	readonly reason: 'no-upstream' | 'upstream-gone';
+	readonly previousUpstream?: string;
+};
+
+/**
+ * Finds local branches whose tracking can be fixed: branches without upstream that have a
+ * same-named branch on a remote, and branches with a gone upstream whose name exists on another
+ * remote (e.g. after the remote was renamed). When several remotes have the branch, the preferred
+ * remote wins, then "origin", then the order of `remotes`.
+ */
+export function findTrackingRepairs(
+	refs: readonly BranchRef[],
+	remotes: readonly string[],
+	preferredRemote = ''
+): TrackingRepair[] {
+	const remoteBranches = new Set(refs.filter((ref) => ref.isRemote).map((ref) => ref.name));
+	const ordered = [...new Set([preferredRemote, 'origin', ...remotes])].filter((r) => remotes.includes(r));
+
+	const repairs: TrackingRepair[] = [];
+	for (const ref of refs) {
+		if (ref.isRemote || (ref.upstream && !ref.upstreamGone)) {
+			continue;
+		}
+		const previousRemote = ref.upstream && remotes.find((r) => ref.upstream?.startsWith(`${r}/`));
+		const remote = ordered.find((r) => r !== previousRemote && remoteBranches.has(`${r}/${ref.name}`));
+		if (!remote) {
+			continue;
+		}
+		repairs.push({
+			branch: ref.name,
+			upstream: `${remote}/${ref.name}`,
+			reason: ref.upstream ? 'upstream-gone' : 'no-upstream',
+			previousUpstream: ref.upstream,
+		});
+	}
+	return repairs;
+}
+
+export function describeTrackingRepair(repair: TrackingRepair): string {
+	return repair.reason === 'no-upstream'
+		? `no upstream → ${repair.upstream}`
+		: `${repair.previousUpstream} is gone → ${repair.upstream}`;
+}
+
+/**
+ * Offers tracking fixes in a multi-select quick pick and applies the selection with
+ * `git branch --set-upstream-to`. Without it, branches pushed without `-u` are never detected
+ * as gone, and branches of a renamed remote are wrongly reported as gone.
+ */
+export async function runRepairTrackingWorkflow(deps: SweepWorkflowDeps): Promise<void> {
+	const workspaceRoot = deps.getWorkspaceRoot();
+	if (!workspaceRoot) {
+		deps.ui.showErrorMessage('Git Sweep Pro: No workspace folder is open.');
+		return;
+	}
+
+	deps.output.show(true);
+	deps.output.appendLine('--- Git Sweep (repair tracking) session started ---');
+	deps.output.appendLine(`Workspace: ${workspaceRoot}`);
+
+	try {
+		await deps.ui.withProgress(
+			{ title: 'Git Sweep Pro: Fetching and pruning remote references...', cancellable: true },
+			(_progress, signal) => fetchAndPruneRemotes(workspaceRoot, deps, signal)
+		);
+
+		const [refs, remotes] = await Promise.all([
+			listBranchRefs((args) => deps.runGitCommand(args, workspaceRoot), ['refs/heads', 'refs/remotes']),
+			listRemotes(workspaceRoot, deps),
+		]);
+		const repairs = findTrackingRepairs(refs, remotes, readSweepSettings(deps.config).preferredRemote);
+
+		if (repairs.length === 0) {
+			deps.output.appendLine('No branches with missing or misplaced tracking found.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Tracking of all local branches looks right.');
+			return;
+		}
+
+		const quickPickItems: QuickPickItemLike[] = repairs.map((repair) => ({
+			label: repair.branch,
+			description: describeTrackingRepair(repair),
+			picked: true,
+		}));
+
+		const selected = await deps.ui.showQuickPick(quickPickItems, {
+			canPickMany: true,
+			ignoreFocusOut: true,
+			matchOnDescription: true,
+			title: 'Git Sweep Pro: Select branches whose upstream to set',
+			placeHolder: 'All suggested fixes are pre-selected. Uncheck any branch you want to leave as is.',
+		});
+
+		const selectedRepairs = normalizeQuickPickSelection(selected)
+			.map((item) => repairs.find((repair) => repair.branch === item.label))
+			.filter((repair): repair is TrackingRepair => repair !== undefined);
+
+		if (selectedRepairs.length === 0) {
+			deps.output.appendLine('Operation cancelled or no branches selected.');
+			deps.ui.showInformationMessage('Git Sweep Pro: No branches selected.');
+			return;
+		}
+
+		let repaired = 0;
+		for (const repair of selectedRepairs) {
+			try {
+				await deps.runGitCommand(['branch', `--set-upstream-to=${repair.upstream}`, repair.branch], workspaceRoot);
+				repaired += 1;
+				deps.output.appendLine(`Set upstream of ${repair.branch} to ${repair.upstream}.`);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				deps.output.appendLine(`[repair-failed] ${repair.branch}: ${message}`);
+			}
+		}
+
+		if (repaired === selectedRepairs.length) {
+			deps.ui.showInformationMessage(`Git Sweep Pro: Set the upstream of ${repaired} branch(es).`);
+		} else {
+			deps.ui.showErrorMessage(
+				`Git Sweep Pro: Set the upstream of ${repaired}/${selectedRepairs.length} branch(es). See "Git Sweep" output for details.`
+			);
+		}
+	} catch (error) {
+		const info = classifyGitError(error);
+		if (info.category === 'cancelled') {
+			deps.output.appendLine('Repair cancelled.');
+			deps.ui.showInformationMessage('Git Sweep Pro: Repair cancelled. No upstream was changed.');
+		} else {
+			deps.ui.showErrorMessage(formatGitError(info));
+		}
+	} finally {
+		deps.output.appendLine('--- Git Sweep (repair tracking) session ended ---');
+	}
+}
@@ -0,0 +1,110 @@
+import type { RunGit } from './default-branch';
+import type { BranchTip } from './deletion-journal';
+import type { QuickPickItemLike, SweepWorkflowDeps } from './sweep-workflow';
+
+export type UnpushedCommit = {
+	readonly sha: string;
+	readonly subject: string;
+};
+
+const BACKUP_PREFIX = 'backup/';
+const PUSH_BACKUP = 'Push to backup ref';
+const SKIP = 'Skip';
+const DELETE_ANYWAY = 'Delete anyway';
+const MAX_LISTED_SUBJECTS = 3;
+
+/**
+ * Lists commits reachable from the branch but from no remote-tracking ref, newest first.
+ */
+export async function findUnpushedCommits(runGit: RunGit, branch: string): Promise<UnpushedCommit[]> {
+	const output = (await runGit(['log', '--format=%h%x09%s', `refs/heads/${branch}`, '--not', '--remotes', '--'])).stdout;
+	return output
+		.split(/\r?\n/)
+		.filter((line) => line.trim().length > 0)
+		.map((line) => {
+			const tab = line.indexOf('\t');
+			return tab >= 0 ? { sha: line.slice(0, tab), subject: line.slice(tab + 1) } : { sha: line, subject: '' };
+		});
+}
+
+function summarizeCommits(commits: readonly UnpushedCommit[]): string {
+	const listed = commits.slice(0, MAX_LISTED_SUBJECTS).map((c) => `${c.sha} ${c.subject}`.trim());
+	const more = commits.length - listed.length;
+	return more > 0 ? `${listed.join('; ')}; and ${more} more` : listed.join('; ');
+}
+
+/**
+ * Before a force delete, asks what to do with each branch holding commits that exist on no remote:
+ * push them to `<remote>/backup/<branch>` then delete, keep the branch, or delete anyway.
+ * Returns the branches that may be deleted; kept branches are logged as skipped. A branch whose
+ * commits cannot be listed is kept too, without affecting the others.
+ */
+export async function confirmUnpushedBranches(
+	repoRoot: string,
+	branchNames: readonly string[],
+	tips: ReadonlyMap<string, BranchTip> | undefined,
+	deps: SweepWorkflowDeps
+): Promise<{ readonly toDelete: string[]; readonly skipped: string[] }> {
+	const runGit = (args: string[]) => deps.runGitCommand(args, repoRoot);
+	const toDelete: string[] = [];
+	const skipped: string[] = [];
+	const unchecked: string[] = [];
+	let remotes: string[] | undefined;
+
+	for (const branch of branchNames) {
+		let commits: UnpushedCommit[];
+		try {
+			commits = await findUnpushedCommits(runGit, branch);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			deps.output.appendLine(`[unpushed-check-failed] ${branch}: ${message}`);
+			unchecked.push(branch);
+			continue;
+		}
+		if (commits.length === 0) {
+			toDelete.push(branch);
+			continue;
+		}
+		deps.output.appendLine(`[unpushed] ${branch}: ${commits.length} commit(s) on no remote`);
+
+		remotes ??= (await runGit(['remote'])).stdout.split(/\r?\n/).map((r) => r.trim()).filter(Boolean);
+		const remote = tips?.get(branch)?.upstreamRemote ?? remotes[0];
+		const items: QuickPickItemLike[] = [
+			...(remote ? [{ label: PUSH_BACKUP, description: `${remote}/${BACKUP_PREFIX}${branch}, then delete` }] : []),
+			{ label: SKIP, description: 'Keep this branch' },
+			{ label: DELETE_ANYWAY, description: `Lose ${commits.length} unpushed commit(s)` },
+		];
+		const selected = await deps.ui.showQuickPick(items, {
+			canPickMany: false,
+			ignoreFocusOut: true,
+			matchOnDescription: false,
+			title: `Git Sweep Pro: "${branch}" has ${commits.length} commit(s) that exist on no remote`,
+			placeHolder: summarizeCommits(commits),
+		});
+		const action = selected === undefined || Array.isArray(selected) ? undefined : (selected as QuickPickItemLike).label;
+
+		if (action === DELETE_ANYWAY) {
+			toDelete.push(branch);
+		} else if (action === PUSH_BACKUP && remote) {
+			try {
+				await runGit(['push', remote, `refs/heads/${branch}:refs/heads/${BACKUP_PREFIX}${branch}`]);
+				deps.output.appendLine(`[backup] ${branch}: pushed to ${remote}/${BACKUP_PREFIX}${branch}`);
+				toDelete.push(branch);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				deps.output.appendLine(`[backup-failed] ${branch}: ${message}`);
+				skipped.push(branch);
+			}
+		} else {
+			skipped.push(branch);
+		}
+	}
+
+	for (const branch of skipped) {
+		deps.output.appendLine(`[skipped] ${branch}: kept because it has unpushed commits`);
+	}
+	for (const branch of unchecked) {
+		deps.output.appendLine(`[skipped] ${branch}: kept because its unpushed commits could not be checked`);
+	}
+	return { toDelete, skipped: [...skipped, ...unchecked] };
+}
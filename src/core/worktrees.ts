@@ -0,0 +1,134 @@
+import * as path from 'node:path';
+import type { RunGit } from './default-branch';
+import type { QuickPickItemLike, SweepWorkflowDeps } from './sweep-workflow';
+
+export type Worktree = {
+	readonly path: string;
+	/** Short branch name; undefined for detached or bare worktrees. */
+	readonly branch?: string;
+	/** The first worktree listed is the main one; git cannot remove it. */
+	readonly isMain: boolean;
+	readonly locked: boolean;
+	/** The worktree directory is missing and `git worktree prune` would drop it. */
+	readonly prunable: boolean;
+};
+
+const REMOVE_WORKTREE = 'Remove worktree and delete branch';
+const SKIP = 'Skip';
+
+/**
+ * Parses `git worktree list --porcelain`: blank-line separated blocks of
+ * "worktree <path>", "HEAD <sha>", "branch refs/heads/<name>" | "detached", and optional "locked"/"prunable".
+ */
+export function parseWorktreeList(porcelain: string): Worktree[] {
+	return porcelain
+		.split(/\r?\n\r?\n/)
+		.map((block) => block.split(/\r?\n/).filter((line) => line.length > 0))
+		.filter((lines) => lines.length > 0 && lines[0].startsWith('worktree '))
+		.map((lines, index) => {
+			const branchLine = lines.find((line) => line.startsWith('branch '));
+			return {
+				path: lines[0].slice('worktree '.length),
+				branch: branchLine?.slice('branch '.length).replace(/^refs\/heads\//, ''),
+				isMain: index === 0,
+				locked: lines.some((line) => line === 'locked' || line.startsWith('locked ')),
+				prunable: lines.some((line) => line === 'prunable' || line.startsWith('prunable ')),
+			};
+		});
+}
+
+/**
+ * Maps each branch checked out in another worktree (not the one containing repoRoot) to that worktree.
+ */
+export async function findBranchWorktrees(runGit: RunGit): Promise<Map<string, Worktree>> {
+	const worktrees = parseWorktreeList((await runGit(['worktree', 'list', '--porcelain'])).stdout);
+	const byBranch = new Map<string, Worktree>();
+	if (worktrees.length < 2) {
+		return byBranch;
+	}
+
+	const current = path.resolve((await runGit(['rev-parse', '--show-toplevel'])).stdout.trim());
+	for (const worktree of worktrees) {
+		if (worktree.branch && path.resolve(worktree.path) !== current) {
+			byBranch.set(worktree.branch, worktree);
+		}
+	}
+	return byBranch;
+}
+
+/**
+ * Before deleting branches checked out in other worktrees, offers to remove clean worktrees together
+ * with their branch. Dirty, locked and main worktrees are refused with an explanation in the output.
+ * Worktrees whose directory is already gone are pruned without asking.
+ */
+export async function confirmWorktreeRemoval(
+	repoRoot: string,
+	branchNames: readonly string[],
+	worktrees: ReadonlyMap<string, Worktree>,
+	deps: SweepWorkflowDeps
+): Promise<{ readonly toDelete: string[]; readonly kept: string[] }> {
+	const toDelete: string[] = [];
+	const kept: string[] = [];
+	let pruned = false;
+
+	for (const branch of branchNames) {
+		const worktree = worktrees.get(branch);
+		if (!worktree) {
+			toDelete.push(branch);
+			continue;
+		}
+
+		if (worktree.prunable) {
+			if (!pruned) {
+				await deps.runGitCommand(['worktree', 'prune'], repoRoot);
+				pruned = true;
+			}
+			deps.output.appendLine(`[worktree] ${branch}: pruned missing worktree ${worktree.path}`);
+			toDelete.push(branch);
+			continue;
+		}
+
+		const refusal = worktree.isMain
+			? `checked out in the main worktree ${worktree.path}; switch it to another branch first`
+			: worktree.locked
+				? `checked out in locked worktree ${worktree.path}; unlock it with "git worktree unlock" first`
+				: (await deps.runGitCommand(['status', '--porcelain'], worktree.path)).stdout.trim().length > 0
+					? `checked out in worktree ${worktree.path}, which has uncommitted changes; commit or stash them first`
+					: undefined;
+		if (refusal) {
+			deps.output.appendLine(`[worktree-refused] ${branch}: ${refusal}`);
+			kept.push(branch);
+			continue;
+		}
+
+		const items: QuickPickItemLike[] = [
+			{ label: REMOVE_WORKTREE, description: worktree.path },
+			{ label: SKIP, description: 'Keep the worktree and the branch' },
+		];
+		const selected = await deps.ui.showQuickPick(items, {
+			canPickMany: false,
+			ignoreFocusOut: true,
+			matchOnDescription: false,
+			title: `Git Sweep Pro: "${branch}" is checked out in a clean worktree`,
+			placeHolder: worktree.path,
+		});
+		const action = selected === undefined || Array.isArray(selected) ? undefined : (selected as QuickPickItemLike).label;
+		if (action !== REMOVE_WORKTREE) {
+			deps.output.appendLine(`[skipped] ${branch}: kept with its worktree ${worktree.path}`);
+			kept.push(branch);
+			continue;
+		}
+
+		try {
+			await deps.runGitCommand(['worktree', 'remove', worktree.path], repoRoot);
+			deps.output.appendLine(`Removed worktree: ${worktree.path}`);
+			toDelete.push(branch);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			deps.output.appendLine(`[worktree-remove-failed] ${branch}: ${message}`);
+			kept.push(branch);
+		}
+	}
+
+	return { toDelete, kept };
+}
@@ -1,10 +1,35 @@
 import * as vscode from 'vscode';
-import { runGitCommand } from './core/git-command';
+import { BackgroundSweepStatus } from './background-sweep-status';
+import {
+	BRANCH_HEALTH_VIEW_ID,
+	BranchHealthTreeProvider,
+	watchRepositoryRefs,
+	type BranchNode,
+	type DeletedNode,
+} from './branch-health-view';
+import { toBranchWebUrl } from './core/branch-health';
+import { createDeletionJournal } from './core/deletion-journal';
+import { classifyGitError, isNetworkCommand, runGitCommand } from './core/git-command';
+import { runMultiRepoSweepWorkflow } from './core/multi-repo-sweep-workflow';
 import { runPostPullRequestWorkflow } from './core/post-pull-request-workflow';
-import { resolveSweepModeAction } from './core/sweep-logic';
-import { runSweepWorkflow, type SweepWorkflowDeps } from './core/sweep-workflow';
+import { runRemoteSweepWorkflow } from './core/remote-sweep-workflow';
+import { restoreDeletedBranch, runRestoreWorkflow } from './core/restore-workflow';
+import { readSweepSettings } from './core/settings';
+import { resolveSweepModeAction, type SweepMode } from './core/sweep-logic';
+import { formatReportAsJson, formatReportAsMarkdown, type SweepReport } from './core/sweep-report';
+import {
+	deleteBranches,
+	describeSkipped,
+	runSweepWorkflow,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from './core/sweep-workflow';
+import { runTagSweepWorkflow } from './core/tag-sweep-workflow';
+import { runRepairTrackingWorkflow } from './core/tracking-repair-workflow';
 import { resolveWorkspaceRoot } from './core/workspace';
 
+/** Sweep reports are kept in memory for the window's lifetime; older ones are dropped. */
+const MAX_SWEEP_REPORTS = 10;
 const OUTPUT_CHANNEL_NAME = 'Git Sweep';
 
 function getWorkspaceRoot(): string | undefined {
@@ -15,12 +40,142 @@ function getWorkspaceRoot(): string | undefined {
 	});
 }
 
+async function promptSweepMode(): Promise<SweepMode | undefined> {
+	const action = await vscode.window.showInformationMessage(
+		'Git Sweep Pro: Choose execution mode',
+		{ modal: true },
+		'Delete (safe -d)',
+		'Delete (force -D)',
+		'Dry Run'
+	);
+
+	return resolveSweepModeAction(action);
+}
+
+/**
+ * showQuickPick built on createQuickPick so item buttons (branch log, diff) can be handled
+ * while the picker stays open.
+ */
+function showSweepQuickPick(
+	items: readonly QuickPickItemLike[],
+	options: Parameters<SweepWorkflowDeps['ui']['showQuickPick']>[1]
+): Promise<readonly QuickPickItemLike[] | QuickPickItemLike | undefined> {
+	type Item = vscode.QuickPickItem & { readonly source: QuickPickItemLike };
+	const quickPick = vscode.window.createQuickPick<Item>();
+	const pickItems: Item[] = items.map((source) => ({
+		...source,
+		source,
+		buttons: source.buttons?.map((b) => ({ iconPath: new vscode.ThemeIcon(b.iconId), tooltip: b.tooltip })),
+	}));
+	quickPick.items = pickItems;
+	quickPick.canSelectMany = options.canPickMany;
+	quickPick.ignoreFocusOut = options.ignoreFocusOut;
+	quickPick.matchOnDescription = options.matchOnDescription;
+	quickPick.title = options.title;
+	quickPick.placeholder = options.placeHolder;
+	if (options.canPickMany) {
+		quickPick.selectedItems = pickItems.filter((item) => item.picked);
+	}
+
+	return new Promise((resolve) => {
+		let result: readonly QuickPickItemLike[] | QuickPickItemLike | undefined;
+		quickPick.onDidTriggerItemButton(({ item, button }) => {
+			const index = item.buttons?.indexOf(button) ?? -1;
+			const source = item.source.buttons?.[index];
+			if (source) {
+				options.onDidTriggerItemButton?.(item.source, source);
+			}
+		});
+		quickPick.onDidAccept(() => {
+			const chosen = options.canPickMany ? quickPick.selectedItems : quickPick.activeItems.slice(0, 1);
+			result = options.canPickMany ? chosen.map((item) => item.source) : chosen[0]?.source;
+			quickPick.hide();
+		});
+		quickPick.onDidHide(() => {
+			quickPick.dispose();
+			resolve(result);
+		});
+		quickPick.show();
+	});
+}
+
+async function exportSweepReport(reports: readonly SweepReport[]): Promise<void> {
+	if (reports.length === 0) {
+		void vscode.window.showInformationMessage('Git Sweep Pro: No sweep has run in this window yet.');
+		return;
+	}
+
+	const report =
+		reports.length === 1
+			? reports[0]
+			: (
+					await vscode.window.showQuickPick(
+						reports.map((r) => ({
+							label: `${r.kind} · ${r.mode}`,
+							description: new Date(r.finishedAt).toLocaleString(),
+							detail: r.repositories.map((repo) => repo.repository).join(', '),
+							report: r,
+						})),
+						{ title: 'Git Sweep Pro: Select a sweep to export', ignoreFocusOut: true }
+					)
+				)?.report;
+	if (!report) {
+		return;
+	}
+
+	const format = await vscode.window.showQuickPick(['Markdown', 'JSON'], { title: 'Git Sweep Pro: Report format' });
+	if (!format) {
+		return;
+	}
+	const destination = await vscode.window.showQuickPick(['Open in editor', 'Save to file...'], {
+		title: 'Git Sweep Pro: Export report to',
+	});
+	if (!destination) {
+		return;
+	}
+
+	const isJson = format === 'JSON';
+	const content = isJson ? formatReportAsJson(report) : formatReportAsMarkdown(report);
+	if (destination === 'Open in editor') {
+		const document = await vscode.workspace.openTextDocument({ content, language: isJson ? 'json' : 'markdown' });
+		await vscode.window.showTextDocument(document);
+		return;
+	}
+
+	const workspaceRoot = getWorkspaceRoot();
+	const fileName = `git-sweep-report-${report.startedAt.replace(/[:.]/g, '-')}.${isJson ? 'json' : 'md'}`;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: workspaceRoot ? vscode.Uri.joinPath(vscode.Uri.file(workspaceRoot), fileName) : undefined,
+		filters: isJson ? { JSON: ['json'] } : { Markdown: ['md'] },
+	});
+	if (!target) {
+		return;
+	}
+	try {
+		await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+		void vscode.window.showInformationMessage(`Git Sweep Pro: Report saved to ${target.fsPath}.`);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		void vscode.window.showErrorMessage(`Git Sweep Pro: Could not save report: ${message}`);
+	}
+}
+
 export function activate(context: vscode.ExtensionContext) {
 	const outputChannel = vscode.window.createOutputChannel(OUTPUT_CHANNEL_NAME);
+	const journal = createDeletionJournal(context.globalState);
+	const sweepReports: SweepReport[] = [];
 
 	const createSweepDeps = (): SweepWorkflowDeps => {
-		const runGitCommandForWorkflow: SweepWorkflowDeps['runGitCommand'] = (args, cwd) =>
-			runGitCommand(args, cwd, outputChannel);
+		const config = vscode.workspace.getConfiguration('gitSweepPro');
+		const { fetchTimeoutSeconds, fetchRetries } = readSweepSettings(config);
+		const runGitCommandForWorkflow: SweepWorkflowDeps['runGitCommand'] = (args, cwd, signal) =>
+			runGitCommand(
+				args,
+				cwd,
+				outputChannel,
+				undefined,
+				isNetworkCommand(args) ? { signal, timeoutMs: fetchTimeoutSeconds * 1000, retries: fetchRetries } : { signal }
+			);
 
 		return {
 			getWorkspaceRoot,
@@ -35,36 +190,78 @@ export function activate(context: vscode.ExtensionContext) {
 						{
 							location: vscode.ProgressLocation.Notification,
 							title: options.title,
-							cancellable: false,
+							cancellable: options.cancellable ?? false,
 						},
-						task
+						async (progress, token) => {
+							const controller = new AbortController();
+							const cancellation = token.onCancellationRequested(() => controller.abort());
+							try {
+								return await task(progress, controller.signal);
+							} finally {
+								cancellation.dispose();
+							}
+						}
 					),
-				showQuickPick: (items, options) => vscode.window.showQuickPick(items, options),
+				showQuickPick: showSweepQuickPick,
 				showInformationMessage: (message) => {
 					void vscode.window.showInformationMessage(message);
 				},
-				showErrorMessage: (message) => {
-					void vscode.window.showErrorMessage(message);
+				showTextDocument: async (content, language) => {
+					const document = await vscode.workspace.openTextDocument({ content, language });
+					await vscode.window.showTextDocument(document, { preview: true, preserveFocus: true });
 				},
+				showErrorMessage: (message, ...actions) => vscode.window.showErrorMessage(message, ...actions),
+			},
+			journal,
+			config,
+			recordReport: (report) => {
+				sweepReports.unshift(report);
+				sweepReports.splice(MAX_SWEEP_REPORTS);
 			},
 		};
 	};
 
-	const runCommand = vscode.commands.registerCommand('git-sweep-pro.run', async () => {
-		const action = await vscode.window.showInformationMessage(
-			'Git Sweep Pro: Choose execution mode',
-			{ modal: true },
-			'Delete (safe -d)',
-			'Delete (force -D)',
-			'Dry Run'
-		);
+	const branchHealth = new BranchHealthTreeProvider({
+		getWorkspaceRoot,
+		runGitCommand: (args, cwd) => runGitCommand(args, cwd, { appendLine: () => undefined }),
+		getConfiguration: () => vscode.workspace.getConfiguration('gitSweepPro'),
+		journal,
+	});
+	const branchHealthView = vscode.window.createTreeView(BRANCH_HEALTH_VIEW_ID, { treeDataProvider: branchHealth });
+	const backgroundSweep = new BackgroundSweepStatus({
+		getWorkspaceRoot,
+		runGitCommand: (args, cwd) => runGitCommand(args, cwd, { appendLine: () => undefined }),
+		getConfiguration: () => vscode.workspace.getConfiguration('gitSweepPro'),
+		command: 'git-sweep-pro.run',
+	});
+	const refreshViews = () => {
+		branchHealth.refresh();
+		backgroundSweep.scheduleCheck();
+	};
+	const repositoryWatcher = watchRepositoryRefs(() => {
+		branchHealth.scheduleRefresh();
+		backgroundSweep.scheduleCheck();
+	});
+	const editorListener = vscode.window.onDidChangeActiveTextEditor(() => branchHealth.refreshIfRootChanged());
 
-		const mode = resolveSweepModeAction(action);
+	const runCommand = vscode.commands.registerCommand('git-sweep-pro.run', async () => {
+		const mode = await promptSweepMode();
 		if (!mode) {
 			return;
 		}
 
 		await runSweepWorkflow(mode, createSweepDeps());
+		refreshViews();
+	});
+
+	const runOfflineCommand = vscode.commands.registerCommand('git-sweep-pro.runOffline', async () => {
+		const mode = await promptSweepMode();
+		if (!mode) {
+			return;
+		}
+
+		await runSweepWorkflow({ ...mode, offline: true }, createSweepDeps());
+		refreshViews();
 	});
 
 	const dryRunCommand = vscode.commands.registerCommand('git-sweep-pro.dryRun', async () => {
@@ -75,10 +272,186 @@ export function activate(context: vscode.ExtensionContext) {
         "git-sweep-pro.postPullRequest",
         async () => {
             await runPostPullRequestWorkflow(createSweepDeps());
+            refreshViews();
         },
     );
 
-    context.subscriptions.push(outputChannel, runCommand, dryRunCommand, postPullRequestCommand);
+	const restoreCommand = vscode.commands.registerCommand('git-sweep-pro.restoreDeletedBranch', async () => {
+		await runRestoreWorkflow({ ...createSweepDeps(), journal });
+		refreshViews();
+	});
+
+	const runAllRepositoriesCommand = vscode.commands.registerCommand('git-sweep-pro.runAllRepositories', async () => {
+		const mode = await promptSweepMode();
+		if (!mode) {
+			return;
+		}
+
+		await runMultiRepoSweepWorkflow(mode, {
+			...createSweepDeps(),
+			getWorkspaceFolders: () => (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath),
+		});
+		refreshViews();
+	});
+
+	const sweepStaleCommand = vscode.commands.registerCommand('git-sweep-pro.sweepStale', async () => {
+		const mode = await promptSweepMode();
+		if (!mode) {
+			return;
+		}
+
+		await runSweepWorkflow(mode, createSweepDeps(), 'stale');
+		refreshViews();
+	});
+
+	const sweepRemoteCommand = vscode.commands.registerCommand('git-sweep-pro.sweepRemote', async () => {
+		const action = await vscode.window.showWarningMessage(
+			'Git Sweep Pro: Delete merged branches on the remote?',
+			{ modal: true },
+			'Delete on remote',
+			'Dry Run'
+		);
+		if (!action) {
+			return;
+		}
+
+		await runRemoteSweepWorkflow({ dryRun: action === 'Dry Run' }, createSweepDeps());
+		refreshViews();
+	});
+
+	const sweepTagsCommand = vscode.commands.registerCommand('git-sweep-pro.sweepTags', async () => {
+		const action = await vscode.window.showInformationMessage(
+			'Git Sweep Pro: Delete local tags that no longer exist on the remote?',
+			{ modal: true },
+			'Delete tags',
+			'Dry Run'
+		);
+		if (!action) {
+			return;
+		}
+
+		await runTagSweepWorkflow({ dryRun: action === 'Dry Run' }, createSweepDeps());
+	});
+
+	const repairTrackingCommand = vscode.commands.registerCommand('git-sweep-pro.repairTracking', async () => {
+		await runRepairTrackingWorkflow(createSweepDeps());
+		refreshViews();
+	});
+
+	const viewRefreshCommand = vscode.commands.registerCommand('git-sweep-pro.view.refresh', () => branchHealth.refresh());
+
+	const viewDeleteCommand = vscode.commands.registerCommand('git-sweep-pro.view.deleteBranch', async (node: BranchNode) => {
+		const action = await vscode.window.showWarningMessage(
+			`Git Sweep Pro: Delete branch "${node.branch.name}"?`,
+			{ modal: true },
+			'Delete (safe -d)',
+			'Delete (force -D)'
+		);
+		const mode = resolveSweepModeAction(action);
+		if (!mode) {
+			return;
+		}
+
+		let result = await deleteBranches(node.repoRoot, [node.branch.name], mode, createSweepDeps());
+		if (!mode.forceDelete && result.failed[0]?.category === 'not-fully-merged') {
+			const retry = await vscode.window.showErrorMessage(
+				`Git Sweep Pro: Branch "${node.branch.name}" is not fully merged.`,
+				'Force delete'
+			);
+			if (retry === 'Force delete') {
+				result = await deleteBranches(node.repoRoot, [node.branch.name], { ...mode, forceDelete: true }, createSweepDeps());
+			} else {
+				refreshViews();
+				return;
+			}
+		}
+		if (result.deleted.length > 0) {
+			void vscode.window.showInformationMessage(`Git Sweep Pro: Deleted branch ${node.branch.name}.`);
+		} else if (result.failed.length > 0) {
+			const info = classifyGitError(result.failed[0].error);
+			void vscode.window.showErrorMessage(
+				`Git Sweep Pro: Could not delete branch "${node.branch.name}". ` +
+					(info.category === 'unknown'
+						? 'See "Git Sweep" output for details.'
+						: [info.message, info.suggestion].filter(Boolean).join(' '))
+			);
+		} else {
+			void vscode.window.showInformationMessage(`Git Sweep Pro:${describeSkipped(result)}`);
+		}
+		refreshViews();
+	});
+
+	const viewCheckoutCommand = vscode.commands.registerCommand('git-sweep-pro.view.checkoutBranch', async (node: BranchNode) => {
+		try {
+			await runGitCommand(['checkout', node.branch.name], node.repoRoot, outputChannel);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Git Sweep Pro: Checkout failed: ${message}`);
+		}
+		refreshViews();
+	});
+
+	const viewOpenOnRemoteCommand = vscode.commands.registerCommand('git-sweep-pro.view.openOnRemote', async (node: BranchNode) => {
+		const { upstream, upstreamRemote } = node.branch;
+		if (!upstream || !upstreamRemote) {
+			return;
+		}
+		try {
+			const remoteUrl = (await runGitCommand(['remote', 'get-url', upstreamRemote], node.repoRoot, outputChannel)).stdout;
+			const webUrl = toBranchWebUrl(remoteUrl, upstream.slice(upstreamRemote.length + 1));
+			if (!webUrl) {
+				void vscode.window.showErrorMessage(`Git Sweep Pro: Remote "${upstreamRemote}" has no web URL.`);
+				return;
+			}
+			await vscode.env.openExternal(vscode.Uri.parse(webUrl));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Git Sweep Pro: Could not open remote: ${message}`);
+		}
+	});
+
+	const viewRestoreCommand = vscode.commands.registerCommand('git-sweep-pro.view.restoreBranch', async (node: DeletedNode) => {
+		try {
+			await restoreDeletedBranch(node.repoRoot, node.entry, {
+				runGitCommand: (args, cwd) => runGitCommand(args, cwd, outputChannel),
+				journal,
+			});
+			void vscode.window.showInformationMessage(`Git Sweep Pro: Restored branch ${node.entry.branch}.`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Git Sweep Pro: Could not restore branch "${node.entry.branch}": ${message}`);
+		}
+		refreshViews();
+	});
+
+	const exportReportCommand = vscode.commands.registerCommand('git-sweep-pro.exportReport', async () => {
+		await exportSweepReport(sweepReports);
+	});
+
+	context.subscriptions.push(
+		outputChannel,
+		runCommand,
+		runOfflineCommand,
+		dryRunCommand,
+		postPullRequestCommand,
+		restoreCommand,
+		runAllRepositoriesCommand,
+		sweepStaleCommand,
+		sweepRemoteCommand,
+		sweepTagsCommand,
+		repairTrackingCommand,
+		branchHealth,
+		branchHealthView,
+		backgroundSweep,
+		repositoryWatcher,
+		editorListener,
+		viewRefreshCommand,
+		viewDeleteCommand,
+		viewCheckoutCommand,
+		viewOpenOnRemoteCommand,
+		viewRestoreCommand,
+		exportReportCommand
+	);
 }
 
 export function deactivate() {}
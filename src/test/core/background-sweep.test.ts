@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as path from 'node:path';
+import {
+	checkSweepCandidates,
+	describeStaleCount,
+	findBusyMarker,
+	type BackgroundSweepDeps,
+} from '../../core/background-sweep';
+import { BRANCH_REFS_FORMAT } from '../../core/branch-list';
+import { createWorkflowHarness } from './workflow-harness';
+
+const repoRoot = path.normalize('/repo');
+const gitDir = path.join(repoRoot, '.git');
+const BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads`;
+
+function createDeps(existing: string[], git: Record<string, string> = {}): { deps: BackgroundSweepDeps; commands: string[] } {
+	const harness = createWorkflowHarness({
+		git: Object.fromEntries(Object.entries(git).map(([key, stdout]) => [key, { stdout }])),
+	});
+	return {
+		commands: harness.commands,
+		deps: {
+			runGitCommand: harness.deps.runGitCommand,
+			config: harness.deps.config,
+			pathExists: async (filePath: string) => existing.includes(filePath),
+		},
+	};
+}
+
+suite('background-sweep', () => {
+	test('describeStaleCount pluralizes', () => {
+		assert.strictEqual(describeStaleCount(1), '1 stale branch');
+		assert.strictEqual(describeStaleCount(3), '3 stale branches');
+	});
+
+	test('findBusyMarker reports an in-progress rebase', async () => {
+		const { deps } = createDeps([path.join(gitDir, 'rebase-merge')]);
+
+		assert.strictEqual(await findBusyMarker(gitDir, deps.pathExists), 'rebase-merge');
+		assert.strictEqual(await findBusyMarker(path.join(repoRoot, 'other'), deps.pathExists), undefined);
+	});
+
+	test('backs off without listing branches while a merge is in progress', async () => {
+		const { deps, commands } = createDeps([path.join(gitDir, 'MERGE_HEAD')], { 'rev-parse --git-dir': '.git\n' });
+
+		const result = await checkSweepCandidates(repoRoot, deps);
+
+		assert.deepStrictEqual(result, { status: 'busy', marker: 'MERGE_HEAD' });
+		assert.deepStrictEqual(commands, ['rev-parse --git-dir']);
+	});
+
+	test('lists unprotected gone branches without fetching or deleting', async () => {
+		const { deps, commands } = createDeps([], {
+			'rev-parse --git-dir': `${gitDir}\n`,
+			[BRANCH_REFS]: [
+				['refs/heads/main', '*', '', 'origin/main', '', ''].join('\0'),
+				['refs/heads/feature/a', ' ', '', 'origin/feature/a', 'gone', ''].join('\0'),
+				['refs/heads/develop', ' ', '', 'origin/develop', 'gone', ''].join('\0'),
+			].join('\n'),
+		});
+
+		const result = await checkSweepCandidates(repoRoot, deps);
+
+		assert.deepStrictEqual(result, { status: 'ok', branches: ['feature/a'] });
+		assert.deepStrictEqual(commands, ['rev-parse --git-dir', BRANCH_REFS, 'worktree list --porcelain']);
+	});
+
+	test('never writes objects or asks the remote when merged detection is on', async () => {
+		const { deps, commands } = createDeps([], {
+			'rev-parse --git-dir': `${gitDir}\n`,
+			remote: 'origin\n',
+			'for-each-ref --format=%(refname) refs/remotes/*/HEAD': 'refs/remotes/origin/HEAD\n',
+			'rev-parse --abbrev-ref refs/remotes/origin/HEAD': 'origin/main\n',
+			'for-each-ref --format=%(refname:lstrip=2)%00%(objectname)%00%(HEAD) refs/heads': 'feature/squashed\0ccc\0\n',
+			'merge-base origin/main ccc': 'base\n',
+			'cherry origin/main ccc base': '+ c1\n',
+		});
+
+		const result = await checkSweepCandidates(repoRoot, {
+			...deps,
+			config: { get: <T>(section: string, defaultValue: T) => (section === 'detectMergedBranches' ? (true as T) : defaultValue) },
+		});
+
+		assert.deepStrictEqual(result, { status: 'ok', branches: [] });
+		assert.ok(commands.includes('merge-base origin/main ccc'));
+		assert.ok(!commands.some((c) => c.startsWith('commit-tree') || c.startsWith('remote set-head')));
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import {
+	BRANCH_DETAILS_FORMAT,
+	describeBranchDetails,
+	describeRelativeDate,
+	loadBranchDetails,
+	parseBranchDetails,
+} from '../../core/branch-details';
+
+const line = (...fields: string[]) => fields.join('\0');
+const now = new Date('2024-06-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+suite('branch details', () => {
+	test('parses subject, author, date and tracking state', () => {
+		const details = parseBranchDetails(
+			[
+				line('feature/gone', 'Fix login', 'Ada', '1700000000', 'origin/feature/gone', 'gone'),
+				line('feature/ahead', 'WIP', 'Linus', '1700000100', 'origin/feature/ahead', 'ahead 2, behind 1'),
+				line('feature/synced', 'Done', 'Grace', '1700000200', 'origin/feature/synced', ''),
+				line('local', 'Local only', 'Ada', '1700000300', '', ''),
+				'',
+			].join('\n')
+		);
+
+		assert.deepStrictEqual(details.get('feature/gone'), {
+			branch: 'feature/gone',
+			subject: 'Fix login',
+			author: 'Ada',
+			committedAt: new Date(1700000000 * 1000),
+			upstream: 'origin/feature/gone',
+			upstreamGone: true,
+			ahead: undefined,
+		});
+		assert.strictEqual(details.get('feature/ahead')?.ahead, 2);
+		assert.strictEqual(details.get('feature/synced')?.ahead, 0);
+		assert.strictEqual(details.get('local')?.upstream, undefined);
+		assert.strictEqual(details.size, 4);
+	});
+
+	test('loads details with a single for-each-ref call', async () => {
+		const commands: string[] = [];
+		const details = await loadBranchDetails(async (args) => {
+			commands.push(args.join(' '));
+			return { stdout: line('main', 'Init', 'Ada', '1700000000', 'origin/main', ''), stderr: '' };
+		});
+
+		assert.deepStrictEqual(commands, [`for-each-ref ${BRANCH_DETAILS_FORMAT} refs/heads`]);
+		assert.deepStrictEqual([...details.keys()], ['main']);
+	});
+
+	test('describes dates relative to now', () => {
+		assert.strictEqual(describeRelativeDate(daysAgo(0), now), 'today');
+		assert.strictEqual(describeRelativeDate(daysAgo(1), now), '1 day ago');
+		assert.strictEqual(describeRelativeDate(daysAgo(45), now), '1 month ago');
+		assert.strictEqual(describeRelativeDate(daysAgo(800), now), '2 years ago');
+	});
+
+	test('describes a branch for the quick-pick detail line', () => {
+		const base = { branch: 'x', subject: 'Fix login', author: 'Ada', committedAt: daysAgo(3) };
+
+		assert.strictEqual(
+			describeBranchDetails({ ...base, upstream: 'origin/x', upstreamGone: true }, now),
+			'Fix login · Ada · 3 days ago · was origin/x'
+		);
+		assert.strictEqual(
+			describeBranchDetails({ ...base, upstream: 'origin/x', upstreamGone: false, ahead: 2 }, now),
+			'Fix login · Ada · 3 days ago · tracks origin/x · 2 ahead'
+		);
+		assert.strictEqual(describeBranchDetails({ ...base, upstreamGone: false }, now), 'Fix login · Ada · 3 days ago');
+	});
+});
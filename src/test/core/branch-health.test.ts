@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import { BRANCH_HEALTH_FORMAT, collectBranchHealth, formatCommitDate, toBranchWebUrl } from '../../core/branch-health';
+
+const listRefs = `for-each-ref ${BRANCH_HEALTH_FORMAT} refs/heads refs/remotes`;
+const listMerged = 'for-each-ref --merged origin/main --format=%(refname:lstrip=2) refs/heads';
+const now = new Date('2026-10-18T00:00:00Z');
+const daysAgo = (days: number) => String(Math.floor(now.getTime() / 1000) - days * 24 * 60 * 60);
+
+function createRunGit(git: Record<string, { stdout?: string } | Error>) {
+	const commands: string[] = [];
+	const runGit = async (args: string[]) => {
+		const key = args.join(' ');
+		commands.push(key);
+		const entry = git[key];
+		if (entry instanceof Error) {
+			throw entry;
+		}
+		return { stdout: entry?.stdout ?? '', stderr: '' };
+	};
+	return { runGit, commands };
+}
+
+type RefOptions = { upstream?: string; track?: string; head?: boolean; tip?: string };
+
+/** One line of `git for-each-ref` output in BRANCH_HEALTH_FORMAT. */
+function ref(refname: string, days: number, { upstream = '', track = '', head = false, tip = '' }: RefOptions = {}) {
+	const remote = upstream ? upstream.split('/')[0] : '';
+	return [refname, head ? '*' : ' ', '', upstream, track, '', tip, daysAgo(days), remote].join('\0');
+}
+
+suite('branch-health', () => {
+	test('formatCommitDate returns the UTC calendar date', () => {
+		assert.strictEqual(formatCommitDate(new Date('2026-03-04T23:59:00Z')), '2026-03-04');
+	});
+
+	test('classifies branches by priority and describes tracking', async () => {
+		const { runGit, commands } = createRunGit({
+			[listRefs]: {
+				stdout: [
+					ref('refs/heads/main', 1, { upstream: 'origin/main', head: true, tip: 'aaa' }),
+					ref('refs/heads/gone-and-merged', 200, { upstream: 'origin/gone-and-merged', track: 'gone' }),
+					ref('refs/heads/merged', 2, { upstream: 'origin/merged', tip: 'bbb' }),
+					ref('refs/heads/old', 120, { upstream: 'origin/old' }),
+					ref('refs/heads/local', 5),
+					ref('refs/heads/feature', 3, { upstream: 'origin/feature', track: 'ahead 1, behind 2' }),
+					ref('refs/remotes/origin/main', 1, { tip: 'aaa' }),
+					ref('refs/remotes/origin/merged', 2, { tip: 'bbb' }),
+					ref('refs/remotes/origin/old', 120),
+					ref('refs/remotes/origin/feature', 3),
+				].join('\n'),
+			},
+			[listMerged]: { stdout: 'main\ngone-and-merged\nmerged\n' },
+		});
+
+		const result = await collectBranchHealth(runGit, {
+			now,
+			staleAfterDays: 90,
+			defaultRef: 'origin/main',
+			defaultBranchName: 'main',
+		});
+
+		assert.deepStrictEqual(
+			result.map((b) => [b.name, b.group, b.tracking, b.isHead]),
+			[
+				['main', 'active', 'origin/main: up to date', true],
+				['gone-and-merged', 'gone', 'upstream gone', false],
+				['merged', 'merged', 'origin/merged: up to date', false],
+				['old', 'stale', 'origin/old: up to date', false],
+				['local', 'local-only', 'no upstream', false],
+				['feature', 'active', 'origin/feature: ahead 1, behind 2', false],
+			]
+		);
+		assert.strictEqual(result[5].upstream, 'origin/feature');
+		assert.strictEqual(result[5].upstreamRemote, 'origin');
+		assert.strictEqual(result[4].upstreamRemote, undefined);
+		assert.deepStrictEqual(commands, [listRefs, listMerged]);
+	});
+
+	test('treats a branch still at the default branch tip as active, not merged', async () => {
+		const { runGit, commands } = createRunGit({
+			[listRefs]: {
+				stdout: [
+					ref('refs/heads/main', 1, { upstream: 'origin/main', head: true, tip: 'aaa' }),
+					ref('refs/heads/just-created', 1, { upstream: 'origin/just-created', tip: 'aaa' }),
+					ref('refs/remotes/origin/main', 1, { tip: 'aaa' }),
+					ref('refs/remotes/origin/just-created', 1, { tip: 'aaa' }),
+				].join('\n'),
+			},
+			[listMerged]: { stdout: 'main\njust-created\n' },
+		});
+
+		const result = await collectBranchHealth(runGit, {
+			now,
+			staleAfterDays: 90,
+			defaultRef: 'origin/main',
+			defaultBranchName: 'main',
+		});
+
+		assert.deepStrictEqual(
+			result.map((b) => [b.name, b.group]),
+			[
+				['main', 'active'],
+				['just-created', 'active'],
+			]
+		);
+		assert.deepStrictEqual(commands, [listRefs, listMerged]);
+	});
+
+	test('skips merged detection without a default branch', async () => {
+		const { runGit, commands } = createRunGit({
+			[listRefs]: { stdout: ref('refs/heads/local', 5) },
+		});
+
+		const result = await collectBranchHealth(runGit, { now, staleAfterDays: 90 });
+
+		assert.deepStrictEqual(result.map((b) => b.group), ['local-only']);
+		assert.deepStrictEqual(commands, [listRefs]);
+	});
+
+	test('toBranchWebUrl handles HTTPS, SSH and SCP-like remotes', () => {
+		assert.strictEqual(
+			toBranchWebUrl('https://github.com/acme/app.git\n', 'feature/x'),
+			'https://github.com/acme/app/tree/feature/x'
+		);
+		assert.strictEqual(
+			toBranchWebUrl('git@github.com:acme/app.git', 'fix#1'),
+			'https://github.com/acme/app/tree/fix%231'
+		);
+		assert.strictEqual(
+			toBranchWebUrl('ssh://git@gitlab.example.com:2222/group/sub/app.git', 'main'),
+			'https://gitlab.example.com/group/sub/app/-/tree/main'
+		);
+		assert.strictEqual(
+			toBranchWebUrl('https://user@bitbucket.org/team/app.git', 'dev'),
+			'https://bitbucket.org/team/app/branch/dev'
+		);
+	});
+
+	test('toBranchWebUrl rejects local paths', () => {
+		assert.strictEqual(toBranchWebUrl('/srv/git/app.git', 'main'), undefined);
+		assert.strictEqual(toBranchWebUrl('C:\\repos\\app', 'main'), undefined);
+	});
+});
@@ -1,185 +1,147 @@
 import * as assert from 'assert';
-import { parseBranches } from '../../core/branch-list';
-
-suite('branch-list parseBranches', () => {
-	test('parses local branches', () => {
-		const output = [
-			'  main',
-			'  feature/login',
-			'  develop',
-		].join('\n');
-
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'main', ref: 'main', isRemote: false },
-			{ label: 'feature/login', ref: 'feature/login', isRemote: false },
-			{ label: 'develop', ref: 'develop', isRemote: false },
-		]);
-	});
-
-	test('parses remote branches', () => {
-		const output = [
-			'  remotes/origin/main',
-			'  remotes/origin/feature/bar',
-			'  remotes/upstream/develop',
-		].join('\n');
-
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'origin/main', ref: 'origin/main', isRemote: true },
-			{ label: 'origin/feature/bar', ref: 'origin/feature/bar', isRemote: true },
-			{ label: 'upstream/develop', ref: 'upstream/develop', isRemote: true },
-		]);
-	});
-
-	test('filters out the current branch (marked with asterisk)', () => {
-		const output = [
-			'* main',
-			'  feature/login',
-			'  develop',
-		].join('\n');
-
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'feature/login', ref: 'feature/login', isRemote: false },
-			{ label: 'develop', ref: 'develop', isRemote: false },
-		]);
-		assert.ok(!result.some((r) => r.label === 'main'));
-	});
-
-	test('handles HEAD symbolic reference (remotes/.../HEAD -> ...)', () => {
-		const output = [
-			'  remotes/origin/HEAD -> origin/main',
-			'  remotes/origin/main',
-			'  remotes/origin/feature/foo',
-		].join('\n');
-
-		const result = parseBranches(output);
-
-		assert.ok(!result.some((r) => r.ref.includes('HEAD') || r.ref.includes('->')));
-		assert.deepStrictEqual(result, [
-			{ label: 'origin/main', ref: 'origin/main', isRemote: true },
-			{ label: 'origin/feature/foo', ref: 'origin/feature/foo', isRemote: true },
-		]);
+import {
+	BRANCH_REFS_FORMAT,
+	goneBranchNames,
+	listBranchRefs,
+	parseBranchRefs,
+	toBranchItems,
+} from '../../core/branch-list';
+
+/** One line of `git for-each-ref` output: refname, HEAD, symref, upstream, track, worktree path. */
+const ref = (...fields: string[]) => fields.join('\0');
+
+suite('branch-list parseBranchRefs', () => {
+	test('returns empty list for empty output', () => {
+		assert.deepStrictEqual(parseBranchRefs(''), []);
+		assert.deepStrictEqual(parseBranchRefs('\n\n'), []);
 	});
 
-	test('handles standalone HEAD line (local detached state)', () => {
+	test('parses local branches with their tracking state', () => {
 		const output = [
-			'  HEAD',
-			'  main',
-			'  feature/foo',
+			ref('refs/heads/feature/one', ' ', '', 'origin/feature/one', 'gone', ''),
+			ref('refs/heads/feature/two', ' ', '', 'origin/feature/two', 'ahead 1', ''),
+			ref('refs/heads/local-only', ' ', '', '', '', ''),
 		].join('\n');
 
-		const result = parseBranches(output);
-
-		assert.ok(!result.some((r) => r.label === 'HEAD' || r.ref === 'HEAD'));
-		assert.deepStrictEqual(result, [
-			{ label: 'main', ref: 'main', isRemote: false },
-			{ label: 'feature/foo', ref: 'feature/foo', isRemote: false },
+		assert.deepStrictEqual(parseBranchRefs(output), [
+			{
+				name: 'feature/one',
+				isRemote: false,
+				isCurrent: false,
+				upstream: 'origin/feature/one',
+				upstreamGone: true,
+				ahead: undefined,
+				behind: undefined,
+				worktreePath: undefined,
+			},
+			{
+				name: 'feature/two',
+				isRemote: false,
+				isCurrent: false,
+				upstream: 'origin/feature/two',
+				upstreamGone: false,
+				ahead: 1,
+				behind: 0,
+				worktreePath: undefined,
+			},
+			{
+				name: 'local-only',
+				isRemote: false,
+				isCurrent: false,
+				upstream: undefined,
+				upstreamGone: false,
+				ahead: undefined,
+				behind: undefined,
+				worktreePath: undefined,
+			},
 		]);
 	});
 
-	test('filters detached HEAD lines (in parentheses)', () => {
+	test('marks the current branch and branches checked out in worktrees', () => {
 		const output = [
-			'(HEAD detached at abc1234)',
-			'  main',
-			'  feature/foo',
+			ref('refs/heads/my/current', '*', '', 'origin/my/current', 'gone', '/work/repo'),
+			ref('refs/heads/feature/wt', ' ', '', 'origin/feature/wt', 'gone', '/work/wt'),
 		].join('\n');
 
-		const result = parseBranches(output);
+		const refs = parseBranchRefs(output);
 
-		assert.ok(!result.some((r) => r.label.includes('detached') || r.label.includes('abc1234')));
-		assert.deepStrictEqual(result, [
-			{ label: 'main', ref: 'main', isRemote: false },
-			{ label: 'feature/foo', ref: 'feature/foo', isRemote: false },
-		]);
+		assert.deepStrictEqual(
+			refs.map((r) => [r.name, r.isCurrent, r.worktreePath]),
+			[
+				['my/current', true, '/work/repo'],
+				['feature/wt', false, '/work/wt'],
+			]
+		);
+		assert.deepStrictEqual(goneBranchNames(refs), ['my/current', 'feature/wt']);
 	});
 
-	test('filters detached HEAD line prefixed with current-branch asterisk', () => {
-		const output = [
-			'* (HEAD detached at abc1234)',
-			'  main',
-			'  feature/foo',
-		].join('\n');
-
-		const result = parseBranches(output);
+	test('keeps odd branch names intact', () => {
+		const names = ['[wip]fix', 'feat/éxample', 'release/2026.02-rc1', 'fix(x)', 'has:gone]'];
+		const output = names.map((name) => ref(`refs/heads/${name}`, ' ', '', `origin/${name}`, 'gone', '')).join('\n');
 
-		assert.ok(!result.some((r) => r.label.includes('detached') || r.label.includes('abc1234')));
-		assert.deepStrictEqual(result, [
-			{ label: 'main', ref: 'main', isRemote: false },
-			{ label: 'feature/foo', ref: 'feature/foo', isRemote: false },
-		]);
+		assert.deepStrictEqual(goneBranchNames(parseBranchRefs(output)), names);
 	});
 
-	test('handles branches with slashes in names', () => {
+	test('does not depend on git\'s display language or commit subjects', () => {
+		/* for-each-ref never translates %(upstream:track); the localized "[origin/x: disparue]" of
+		 * `git branch -vv` and subjects mentioning ": gone]" cannot reach the parser */
 		const output = [
-			'  feature/auth/oauth',
-			'  release/v1.0.0',
-			'  remotes/origin/team/subteam/project',
+			ref('refs/heads/feature/a', ' ', '', 'origin/feature/a', 'behind 1', ''),
+			ref('refs/heads/feature/b', ' ', '', 'origin/feature/b', 'ahead 3, behind 2', ''),
+			ref('refs/heads/feature/c', ' ', '', 'origin/feature/c', '', ''),
+			ref('refs/heads/feature/d', ' ', '', '', 'gone', ''),
 		].join('\n');
 
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'feature/auth/oauth', ref: 'feature/auth/oauth', isRemote: false },
-			{ label: 'release/v1.0.0', ref: 'release/v1.0.0', isRemote: false },
-			{ label: 'origin/team/subteam/project', ref: 'origin/team/subteam/project', isRemote: true },
-		]);
+		assert.deepStrictEqual(goneBranchNames(parseBranchRefs(output)), []);
 	});
 
-	test('handles branches with hyphens and underscores', () => {
+	test('reads ahead and behind counts from the tracking state', () => {
 		const output = [
-			'  feature_fix-123',
-			'  my-branch_name',
+			ref('refs/heads/feature/a', ' ', '', 'origin/feature/a', 'ahead 3, behind 2', ''),
+			ref('refs/heads/feature/b', ' ', '', 'origin/feature/b', '', ''),
 		].join('\n');
 
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'feature_fix-123', ref: 'feature_fix-123', isRemote: false },
-			{ label: 'my-branch_name', ref: 'my-branch_name', isRemote: false },
-		]);
+		assert.deepStrictEqual(
+			parseBranchRefs(output).map((r) => [r.name, r.ahead, r.behind]),
+			[
+				['feature/a', 3, 2],
+				['feature/b', 0, 0],
+			]
+		);
 	});
 
-	test('parses mixed output like git branch -a', () => {
+	test('parses remote-tracking branches and skips symbolic refs', () => {
 		const output = [
-			'* main',
-			'  feature/login',
-			'  remotes/origin/HEAD -> origin/main',
-			'  remotes/origin/main',
-			'  remotes/origin/feature/login',
+			ref('refs/heads/main', '*', '', 'origin/main', '', ''),
+			ref('refs/remotes/origin/HEAD', ' ', 'refs/remotes/origin/main', '', '', ''),
+			ref('refs/remotes/origin/main', ' ', '', '', '', ''),
+			ref('refs/remotes/upstream/team/project', ' ', '', '', '', ''),
+			ref('refs/tags/v1.0.0', ' ', '', '', '', ''),
 		].join('\n');
 
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'feature/login', ref: 'feature/login', isRemote: false },
+		const refs = parseBranchRefs(output);
+
+		assert.deepStrictEqual(
+			refs.map((r) => [r.name, r.isRemote]),
+			[
+				['main', false],
+				['origin/main', true],
+				['upstream/team/project', true],
+			]
+		);
+		assert.deepStrictEqual(toBranchItems(refs), [
 			{ label: 'origin/main', ref: 'origin/main', isRemote: true },
-			{ label: 'origin/feature/login', ref: 'origin/feature/login', isRemote: true },
+			{ label: 'upstream/team/project', ref: 'upstream/team/project', isRemote: true },
 		]);
 	});
 
-	test('returns empty array for empty or whitespace-only input', () => {
-		assert.deepStrictEqual(parseBranches(''), []);
-		assert.deepStrictEqual(parseBranches('\n\n  \n'), []);
-	});
+	test('lists branches with a single for-each-ref call', async () => {
+		const commands: string[] = [];
+		await listBranchRefs(async (args) => {
+			commands.push(args.join(' '));
+			return { stdout: '', stderr: '' };
+		}, ['refs/heads', 'refs/remotes']);
 
-	test('ignores empty lines and trims leading/trailing whitespace on lines', () => {
-		const output = [
-			'',
-			'  feature/foo  ',
-			'  ',
-			'  main',
-		].join('\n');
-
-		const result = parseBranches(output);
-
-		assert.deepStrictEqual(result, [
-			{ label: 'feature/foo', ref: 'feature/foo', isRemote: false },
-			{ label: 'main', ref: 'main', isRemote: false },
-		]);
+		assert.deepStrictEqual(commands, [`for-each-ref ${BRANCH_REFS_FORMAT} refs/heads refs/remotes`]);
 	});
 });
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { resolveDefaultBranch } from '../../core/default-branch';
+
+const listHeads = 'for-each-ref --format=%(refname) refs/remotes/*/HEAD';
+const currentUpstream = 'for-each-ref --format=%(HEAD)%(upstream:remotename) refs/heads';
+
+function createRunGit(git: Record<string, { stdout?: string } | Error>) {
+	const commands: string[] = [];
+	const runGit = async (args: string[]) => {
+		const key = args.join(' ');
+		commands.push(key);
+		const entry = git[key];
+		if (entry instanceof Error) {
+			throw entry;
+		}
+		return { stdout: entry?.stdout ?? '', stderr: '' };
+	};
+	return { runGit, commands };
+}
+
+const forkGit = {
+	[listHeads]: { stdout: 'refs/remotes/origin/HEAD\nrefs/remotes/upstream/HEAD\n' },
+	'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/dev\n' },
+	'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': { stdout: 'upstream/main\n' },
+};
+
+suite('default-branch', () => {
+	test('uses the first remote with a HEAD ref when nothing is preferred', async () => {
+		const { runGit } = createRunGit(forkGit);
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit), { remote: 'origin', name: 'dev' });
+	});
+
+	test('prefers the current branch upstream remote', async () => {
+		const { runGit } = createRunGit({
+			...forkGit,
+			[currentUpstream]: { stdout: ' origin\n*upstream\n' },
+		});
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit), { remote: 'upstream', name: 'main' });
+	});
+
+	test('the preferredRemote setting wins over the current upstream', async () => {
+		const { runGit, commands } = createRunGit({
+			...forkGit,
+			[currentUpstream]: { stdout: '*origin\n' },
+		});
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit, { preferredRemote: 'upstream' }), {
+			remote: 'upstream',
+			name: 'main',
+		});
+		assert.ok(!commands.includes(currentUpstream));
+	});
+
+	test('runs remote set-head --auto when the preferred remote has no HEAD ref', async () => {
+		const { runGit, commands } = createRunGit({
+			[listHeads]: { stdout: 'refs/remotes/origin/HEAD\n' },
+			'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main\n' },
+			'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': { stdout: 'upstream/trunk\n' },
+		});
+
+		const result = await resolveDefaultBranch(runGit, { preferredRemote: 'upstream', queryRemote: true });
+
+		assert.deepStrictEqual(result, { remote: 'upstream', name: 'trunk' });
+		assert.ok(commands.includes('remote set-head upstream --auto'));
+	});
+
+	test('falls back to a remote with a HEAD ref when set-head fails', async () => {
+		const { runGit } = createRunGit({
+			[listHeads]: { stdout: 'refs/remotes/origin/HEAD\n' },
+			'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main\n' },
+			'remote set-head upstream --auto': new Error('fatal: unable to access'),
+			'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': new Error('unknown revision'),
+		});
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit, { preferredRemote: 'upstream', queryRemote: true }), {
+			remote: 'origin',
+			name: 'main',
+		});
+	});
+
+	test('reads only local refs unless queryRemote is set', async () => {
+		const { runGit, commands } = createRunGit({
+			remote: { stdout: 'origin\n' },
+			[listHeads]: { stdout: 'refs/remotes/origin/HEAD\n' },
+			'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main\n' },
+		});
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit, { preferredRemote: 'upstream' }), {
+			remote: 'origin',
+			name: 'main',
+		});
+		assert.ok(!commands.some((c) => c.startsWith('remote set-head')));
+	});
+
+	test('returns undefined without HEAD refs unless queryRemote is set', async () => {
+		const { runGit, commands } = createRunGit({ remote: { stdout: 'origin\n' } });
+
+		assert.strictEqual(await resolveDefaultBranch(runGit), undefined);
+		assert.ok(!commands.some((c) => c.startsWith('remote set-head')));
+	});
+
+	test('sets the HEAD ref of the only remote when none exists', async () => {
+		const { runGit, commands } = createRunGit({
+			remote: { stdout: 'origin\n' },
+			'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main\n' },
+		});
+
+		assert.deepStrictEqual(await resolveDefaultBranch(runGit, { queryRemote: true }), { remote: 'origin', name: 'main' });
+		assert.ok(commands.includes('remote set-head origin --auto'));
+	});
+
+	test('returns undefined without remotes', async () => {
+		const { runGit } = createRunGit({});
+
+		assert.strictEqual(await resolveDefaultBranch(runGit, { queryRemote: true }), undefined);
+	});
+});
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	createDeletionJournal,
+	parseBranchTips,
+	resolveJournalKey,
+	toJournalEntry,
+	type DeletionJournalEntry,
+	type MementoLike,
+} from '../../core/deletion-journal';
+
+function createMemento(): MementoLike & { store: Map<string, unknown> } {
+	const store = new Map<string, unknown>();
+	return {
+		store,
+		get: <T>(key: string) => store.get(key) as T | undefined,
+		update: async (key, value) => {
+			store.set(key, value);
+		},
+	};
+}
+
+function entry(branch: string, sha: string, deletedAt = '2026-01-01T00:00:00.000Z'): DeletionJournalEntry {
+	return { branch, sha, deletedAt, mode: 'safe' };
+}
+
+suite('deletion-journal', () => {
+	test('parseBranchTips reads NUL-separated fields', () => {
+		const output = [
+			'feature/one\0abc123\0origin\0refs/heads/feature/one',
+			'local-only\0def456\0\0',
+			'',
+		].join('\n');
+
+		const tips = parseBranchTips(output);
+
+		assert.deepStrictEqual(tips.get('feature/one'), {
+			branch: 'feature/one',
+			sha: 'abc123',
+			upstreamRemote: 'origin',
+			upstreamMerge: 'refs/heads/feature/one',
+		});
+		assert.deepStrictEqual(tips.get('local-only'), {
+			branch: 'local-only',
+			sha: 'def456',
+			upstreamRemote: undefined,
+			upstreamMerge: undefined,
+		});
+		assert.strictEqual(tips.size, 2);
+	});
+
+	test('toJournalEntry stamps mode and ISO timestamp', () => {
+		const result = toJournalEntry(
+			{ branch: 'x', sha: 'abc', upstreamRemote: 'origin', upstreamMerge: 'refs/heads/x' },
+			'force',
+			new Date('2026-03-04T05:06:07.000Z')
+		);
+
+		assert.deepStrictEqual(result, {
+			branch: 'x',
+			sha: 'abc',
+			upstreamRemote: 'origin',
+			upstreamMerge: 'refs/heads/x',
+			deletedAt: '2026-03-04T05:06:07.000Z',
+			mode: 'force',
+		});
+	});
+
+	test('records entries per repository, newest first', async () => {
+		const journal = createDeletionJournal(createMemento());
+
+		await journal.record('/repo-a', [entry('one', '1'), entry('two', '2')]);
+		await journal.record('/repo-a', [entry('three', '3')]);
+		await journal.record('/repo-b', [entry('other', '9')]);
+
+		assert.deepStrictEqual(
+			journal.list('/repo-a').map((e) => e.branch),
+			['three', 'two', 'one']
+		);
+		assert.deepStrictEqual(
+			journal.list('/repo-b').map((e) => e.branch),
+			['other']
+		);
+		assert.deepStrictEqual(journal.list('/unknown'), []);
+	});
+
+	test('caps the number of entries kept per repository', async () => {
+		const journal = createDeletionJournal(createMemento(), 2);
+
+		await journal.record('/repo', [entry('one', '1'), entry('two', '2'), entry('three', '3')]);
+
+		assert.deepStrictEqual(
+			journal.list('/repo').map((e) => e.branch),
+			['three', 'two']
+		);
+	});
+
+	test('removes only the matching entry', async () => {
+		const journal = createDeletionJournal(createMemento());
+		const first = entry('same', '1', '2026-01-01T00:00:00.000Z');
+		const second = entry('same', '2', '2026-01-02T00:00:00.000Z');
+		await journal.record('/repo', [first, second]);
+
+		await journal.remove('/repo', first);
+
+		assert.deepStrictEqual(journal.list('/repo'), [second]);
+	});
+
+	test('ignores empty record calls', async () => {
+		const memento = createMemento();
+		const journal = createDeletionJournal(memento);
+
+		await journal.record('/repo', []);
+
+		assert.strictEqual(memento.store.size, 0);
+	});
+
+	test('keys the journal by the common git directory', async () => {
+		const runGit = (stdout: string) => async () => ({ stdout, stderr: '' });
+
+		assert.strictEqual(await resolveJournalKey(runGit('.git\n'), '/repo'), path.resolve('/repo/.git'));
+		assert.strictEqual(await resolveJournalKey(runGit('/repo/.git\n'), '/worktrees/x'), path.resolve('/repo/.git'));
+	});
+});
@@ -1,5 +1,13 @@
 import * as assert from 'assert';
-import { runGitCommand, type ExecFileFn } from '../../core/git-command';
+import {
+	classifyGitError,
+	formatGitError,
+	GitTimeoutError,
+	isCancellationError,
+	isNetworkCommand,
+	runGitCommand,
+	type ExecFileFn,
+} from '../../core/git-command';
 
 suite('git-command', () => {
 	test('logs command and stdout/stderr on success', async () => {
@@ -96,4 +104,181 @@ suite('git-command', () => {
 
 		assert.deepStrictEqual(receivedArgs, ['branch', '-d', '; rm -rf /']);
 	});
+
+	test('passes the abort signal to the git process', async () => {
+		const controller = new AbortController();
+		let receivedSignal: AbortSignal | undefined;
+		const execFileFn: ExecFileFn = async (_file, _args, options) => {
+			receivedSignal = options.signal;
+			return { stdout: '', stderr: '' };
+		};
+
+		await runGitCommand(['fetch', '-p'], '/repo', { appendLine: () => undefined }, execFileFn, {
+			signal: controller.signal,
+		});
+
+		assert.strictEqual(receivedSignal, controller.signal);
+	});
+
+	test('runs git in the C locale so its messages are not translated', async () => {
+		let receivedEnv: NodeJS.ProcessEnv | undefined;
+		const execFileFn: ExecFileFn = async (_file, _args, options) => {
+			receivedEnv = options.env;
+			return { stdout: '', stderr: '' };
+		};
+
+		await runGitCommand(['branch', '-d', 'x'], '/repo', { appendLine: () => undefined }, execFileFn);
+
+		assert.strictEqual(receivedEnv?.LC_ALL, 'C');
+		assert.strictEqual(receivedEnv?.LANGUAGE, 'C');
+		assert.strictEqual(receivedEnv?.PATH, process.env.PATH);
+	});
+
+	test('classifies failures of a git whose locale would otherwise be German', async () => {
+		const execFileFn: ExecFileFn = async (_file, _args, options) => {
+			const stderr = options.env?.LC_ALL === 'C'
+				? "error: the branch 'x' is not fully merged.\n"
+				: "Fehler: Der Branch 'x' ist nicht vollständig zusammengeführt.\n";
+			throw Object.assign(new Error('Command failed: git branch -d x'), { code: 1, stderr });
+		};
+
+		const error = await runGitCommand(['branch', '-d', 'x'], '/repo', { appendLine: () => undefined }, execFileFn)
+			.then(() => undefined, (err: unknown) => err);
+
+		assert.strictEqual(classifyGitError(error).category, 'not-fully-merged');
+	});
+
+	test('logs cancellation without error details and rethrows the AbortError', async () => {
+		const lines: string[] = [];
+		const aborted = Object.assign(new Error('The operation was aborted'), { name: 'AbortError', stderr: 'partial\n' });
+		const execFileFn: ExecFileFn = async () => {
+			throw aborted;
+		};
+
+		await assert.rejects(
+			() => runGitCommand(['fetch', '-p'], '/repo', { appendLine: (line) => lines.push(line) }, execFileFn),
+			(error: unknown) => {
+				assert.ok(isCancellationError(error));
+				return true;
+			}
+		);
+
+		assert.deepStrictEqual(lines, ['$ git fetch -p', '[cancelled] git fetch -p']);
+		assert.strictEqual(isCancellationError(new Error('boom')), false);
+	});
+
+	test('retries a command that timed out and returns the next successful attempt', async () => {
+		const lines: string[] = [];
+		const timeouts: Array<number | undefined> = [];
+		const execFileFn: ExecFileFn = async (_file, _args, options) => {
+			timeouts.push(options.timeout);
+			if (timeouts.length === 1) {
+				throw Object.assign(new Error('Command failed'), { killed: true, signal: 'SIGTERM' });
+			}
+			return { stdout: '', stderr: '' };
+		};
+
+		await runGitCommand(['fetch', '-p'], '/repo', { appendLine: (line) => lines.push(line) }, execFileFn, {
+			timeoutMs: 30_000,
+			retries: 1,
+		});
+
+		assert.deepStrictEqual(timeouts, [30_000, 30_000]);
+		assert.deepStrictEqual(lines, [
+			'$ git fetch -p',
+			'[timeout] git fetch -p: no response after 30 s',
+			'[retry] git fetch -p (attempt 2/2)',
+		]);
+	});
+
+	test('throws a GitTimeoutError once every attempt timed out', async () => {
+		let calls = 0;
+		const execFileFn: ExecFileFn = async () => {
+			calls += 1;
+			throw Object.assign(new Error('Command failed'), { killed: true, signal: 'SIGTERM' });
+		};
+
+		await assert.rejects(
+			() => runGitCommand(['fetch', '-p'], '/repo', { appendLine: () => undefined }, execFileFn, {
+				timeoutMs: 5_000,
+				retries: 2,
+			}),
+			(error: unknown) => {
+				assert.ok(error instanceof GitTimeoutError);
+				assert.strictEqual(error.message, 'git fetch -p timed out after 5 s');
+				assert.strictEqual(error.command, 'git fetch -p');
+				return true;
+			}
+		);
+		assert.strictEqual(calls, 3);
+	});
+
+	test('does not retry failures other than timeouts', async () => {
+		let calls = 0;
+		const execFileFn: ExecFileFn = async () => {
+			calls += 1;
+			throw new Error('fatal: could not read from remote repository');
+		};
+
+		await assert.rejects(
+			() => runGitCommand(['fetch', '-p'], '/repo', { appendLine: () => undefined }, execFileFn, {
+				timeoutMs: 5_000,
+				retries: 2,
+			}),
+			/could not read from remote/
+		);
+		assert.strictEqual(calls, 1);
+	});
+
+	test('recognises read-only network commands', () => {
+		assert.strictEqual(isNetworkCommand(['fetch', '-p']), true);
+		assert.strictEqual(isNetworkCommand(['ls-remote', '--tags', 'origin']), true);
+		assert.strictEqual(isNetworkCommand(['remote', 'set-head', 'origin', '--auto']), true);
+		assert.strictEqual(isNetworkCommand(['remote', 'set-head', 'origin', 'main']), false);
+		assert.strictEqual(isNetworkCommand(['push', 'origin', '--delete', 'x']), false);
+		assert.strictEqual(isNetworkCommand(['branch', '-vv']), false);
+	});
+
+	suite('classifyGitError', () => {
+		const failure = (stderr: string, extra: Record<string, unknown> = {}) =>
+			Object.assign(new Error('Command failed: git ...'), { code: 128, stderr, ...extra });
+
+		const cases: Array<[string, unknown, string]> = [
+			['not-a-repository', failure('fatal: not a git repository (or any of the parent directories): .git'), ''],
+			['git-missing', Object.assign(new Error('spawn git ENOENT'), { code: 'ENOENT' }), ''],
+			['auth-failed', failure("fatal: Authentication failed for 'https://example.com/repo.git/'"), ''],
+			['auth-failed', failure('git@example.com: Permission denied (publickey).\nfatal: Could not read from remote repository.'), 'ssh'],
+			['network', failure("fatal: unable to access 'https://example.com/': Could not resolve host: example.com"), ''],
+			['lock-file', failure("fatal: Unable to create '/repo/.git/index.lock': File exists."), ''],
+			['lock-file', failure("error: cannot lock ref 'refs/heads/x': Unable to create '/repo/.git/refs/heads/x.lock': File exists."), 'ref lock'],
+			['unknown', failure("error: cannot lock ref 'refs/remotes/origin/a/b': 'refs/remotes/origin/a' exists; cannot create 'refs/remotes/origin/a/b'"), 'ref name collision'],
+			['not-fully-merged', failure("error: the branch 'feature/x' is not fully merged."), ''],
+			['checked-out-elsewhere', failure("error: cannot delete branch 'feature/x' used by worktree at '/wt'"), ''],
+			['checked-out-elsewhere', failure("error: Cannot delete branch 'feature/x' checked out at '/wt'"), 'older git'],
+			['permission-denied', failure("error: unable to unlink old 'x': Permission denied"), ''],
+			['timeout', new GitTimeoutError('git fetch -p', 60_000), ''],
+			['cancelled', Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }), ''],
+			['unknown', failure('fatal: something new'), ''],
+		];
+		for (const [category, error, note] of cases) {
+			test(`recognises ${category}${note ? ` (${note})` : ''}`, () => {
+				assert.strictEqual(classifyGitError(error).category, category);
+			});
+		}
+
+		test('formats tailored messages with a suggestion', () => {
+			assert.strictEqual(
+				formatGitError(classifyGitError(failure("error: the branch 'x' is not fully merged."))),
+				'Git Sweep Pro: The branch is not fully merged. Force delete it (-D) if you no longer need its commits.'
+			);
+			assert.strictEqual(
+				formatGitError(classifyGitError(new Error('fatal: not a git repository'))),
+				'Git Sweep Pro: The selected workspace folder is not a Git repository.'
+			);
+		});
+
+		test('falls back to git\'s own message for unknown failures', () => {
+			assert.strictEqual(formatGitError(classifyGitError(new Error('mysterious failure'))), 'Git Sweep Pro failed: mysterious failure');
+		});
+	});
 });
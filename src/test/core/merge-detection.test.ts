@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { describeDetectionReason, detectMergedBranches } from '../../core/merge-detection';
+
+type GitEntry = { stdout?: string } | Error;
+
+function createRunGit(git: Record<string, GitEntry>) {
+	const commands: string[] = [];
+	const runGit = async (args: string[]) => {
+		const key = args.join(' ');
+		commands.push(key);
+		const entry = git[key];
+		if (entry instanceof Error) {
+			throw entry;
+		}
+		return { stdout: entry?.stdout ?? '', stderr: '' };
+	};
+	return { runGit, commands };
+}
+
+const listBranches = 'for-each-ref --format=%(refname:lstrip=2)%00%(objectname)%00%(HEAD) refs/heads';
+
+suite('merge-detection', () => {
+	test('describeDetectionReason names the default branch', () => {
+		assert.strictEqual(describeDetectionReason('gone', 'main'), 'upstream gone');
+		assert.strictEqual(describeDetectionReason('merged', 'main'), 'merged into main');
+		assert.strictEqual(describeDetectionReason('squash-merged', 'main'), 'squash-merged into main');
+		assert.strictEqual(describeDetectionReason('rebase-merged'), 'rebase-merged into default branch');
+	});
+
+	test('flags a branch whose tip is an ancestor of the base as merged', async () => {
+		const { runGit, commands } = createRunGit({
+			[listBranches]: { stdout: 'feature/ff\0aaa\0\n' },
+			'merge-base origin/main aaa': { stdout: 'aaa\n' },
+		});
+
+		const result = await detectMergedBranches(runGit, 'origin/main', new Set());
+
+		assert.deepStrictEqual(result, [{ branch: 'feature/ff', reason: 'merged' }]);
+		assert.ok(!commands.some((c) => c.startsWith('cherry')));
+	});
+
+	test('flags a branch whose commits all have upstream equivalents as rebase-merged', async () => {
+		const { runGit, commands } = createRunGit({
+			[listBranches]: { stdout: 'feature/rebased\0bbb\0\n' },
+			'merge-base origin/main bbb': { stdout: 'base\n' },
+			'cherry origin/main bbb base': { stdout: '- c1\n- c2\n' },
+		});
+
+		const result = await detectMergedBranches(runGit, 'origin/main', new Set());
+
+		assert.deepStrictEqual(result, [{ branch: 'feature/rebased', reason: 'rebase-merged' }]);
+		assert.ok(!commands.some((c) => c.startsWith('commit-tree')));
+	});
+
+	test('flags a branch whose cumulative diff matches an upstream commit as squash-merged', async () => {
+		const { runGit } = createRunGit({
+			[listBranches]: { stdout: 'feature/squashed\0ccc\0\n' },
+			'merge-base origin/main ccc': { stdout: 'base\n' },
+			'cherry origin/main ccc base': { stdout: '+ c1\n- c2\n' },
+			'commit-tree ccc^{tree} -p base -m git-sweep-pro squash check': { stdout: 'tmp\n' },
+			'cherry origin/main tmp': { stdout: '- tmp\n' },
+		});
+
+		const result = await detectMergedBranches(runGit, 'origin/main', new Set());
+
+		assert.deepStrictEqual(result, [{ branch: 'feature/squashed', reason: 'squash-merged' }]);
+	});
+
+	test('skipSquash leaves the repository untouched', async () => {
+		const { runGit, commands } = createRunGit({
+			[listBranches]: { stdout: 'feature/squashed\0ccc\0\n' },
+			'merge-base origin/main ccc': { stdout: 'base\n' },
+			'cherry origin/main ccc base': { stdout: '+ c1\n- c2\n' },
+		});
+
+		const result = await detectMergedBranches(runGit, 'origin/main', new Set(), { skipSquash: true });
+
+		assert.deepStrictEqual(result, []);
+		assert.ok(!commands.some((c) => c.startsWith('commit-tree')));
+	});
+
+	test('does not flag branches with changes missing upstream', async () => {
+		const { runGit } = createRunGit({
+			[listBranches]: { stdout: 'feature/wip\0ddd\0\n' },
+			'merge-base origin/main ddd': { stdout: 'base\n' },
+			'cherry origin/main ddd base': { stdout: '+ c1\n' },
+			'commit-tree ddd^{tree} -p base -m git-sweep-pro squash check': { stdout: 'tmp\n' },
+			'cherry origin/main tmp': { stdout: '+ tmp\n' },
+		});
+
+		assert.deepStrictEqual(await detectMergedBranches(runGit, 'origin/main', new Set()), []);
+	});
+
+	test('skips the checked-out branch, excluded branches and unrelated histories', async () => {
+		const { runGit, commands } = createRunGit({
+			[listBranches]: { stdout: 'current\0aaa\0*\nmain\0bbb\0\norphan\0ccc\0\n' },
+			'merge-base origin/main ccc': new Error('exit code 1'),
+		});
+
+		const result = await detectMergedBranches(runGit, 'origin/main', new Set(['main']));
+
+		assert.deepStrictEqual(result, []);
+		assert.deepStrictEqual(commands, [listBranches, 'merge-base origin/main ccc']);
+	});
+});
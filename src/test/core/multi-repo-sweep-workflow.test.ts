@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as path from 'node:path';
+import { BRANCH_REFS_FORMAT } from '../../core/branch-list';
+import {
+	parseSubmodulePaths,
+	runMultiRepoSweepWorkflow,
+	type MultiRepoSweepDeps,
+} from '../../core/multi-repo-sweep-workflow';
+import type { SweepMode } from '../../core/sweep-logic';
+import {
+	createWorkflowHarness,
+	listBatchRefs,
+	type GitEntry,
+	type WorkflowHarness,
+	type WorkflowHarnessOptions,
+} from './workflow-harness';
+
+const BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads`;
+
+/** A local branch line of `git for-each-ref` output whose upstream origin/<name> was deleted. */
+function goneRef(name: string): string {
+	return [`refs/heads/${name}`, ' ', '', `origin/${name}`, 'gone', ''].join('\0');
+}
+
+type HarnessOptions = Omit<WorkflowHarnessOptions, 'workspaceRoot' | 'keyByCwd' | 'fallbackGit'> & {
+	folders?: string[];
+};
+
+/** The shared harness with workspace folders; git commands are keyed by "<cwd>: <git args>". */
+function createHarness({ folders = [], ...options }: HarnessOptions = {}): WorkflowHarness & { deps: MultiRepoSweepDeps } {
+	const harness = createWorkflowHarness({ ...options, workspaceRoot: folders[0], keyByCwd: true, fallbackGit: listBatchRefs });
+	return { ...harness, deps: { ...harness.deps, getWorkspaceFolders: () => folders } };
+}
+
+const apiRoot = path.normalize('/work/api');
+const webRoot = path.normalize('/work/web');
+
+const twoRepoGit: Record<string, GitEntry> = {
+	'/work/api: rev-parse --show-toplevel': { stdout: '/work/api\n' },
+	'/work/web: rev-parse --show-toplevel': { stdout: '/work/web\n' },
+	[`${apiRoot}: fetch -p`]: { stdout: '' },
+	[`${webRoot}: fetch -p`]: { stdout: '' },
+	[`${apiRoot}: ${BRANCH_REFS}`]: {
+		stdout: [
+			goneRef('api/old'),
+			goneRef('api/other'),
+		].join('\n'),
+	},
+	[`${webRoot}: ${BRANCH_REFS}`]: { stdout: goneRef('web/old') },
+};
+
+suite('multi-repo sweep workflow', () => {
+	const safeMode: SweepMode = { dryRun: false, forceDelete: false };
+	const dryMode: SweepMode = { dryRun: true, forceDelete: false };
+
+	test('parseSubmodulePaths keeps initialized submodules only', () => {
+		const output = [
+			' 1234567 libs/core (v1.0)',
+			'+89abcde libs/ui (heads/main)',
+			'-fedcba9 libs/unused',
+			'',
+		].join('\n');
+
+		assert.deepStrictEqual(parseSubmodulePaths(output, '/repo'), [
+			path.join('/repo', 'libs/core'),
+			path.join('/repo', 'libs/ui'),
+		]);
+	});
+
+	test('fails fast when no workspace folder is open', async () => {
+		const h = createHarness();
+		await runMultiRepoSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, ['Git Sweep Pro: No workspace folder is open.']);
+		assert.deepStrictEqual(h.commands, []);
+	});
+
+	test('reports when no folder is a git repository', async () => {
+		const h = createHarness({
+			folders: ['/work/notes'],
+			git: { '/work/notes: rev-parse --show-toplevel': new Error('fatal: not a git repository') },
+		});
+		await runMultiRepoSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, ['Git Sweep Pro: No Git repositories found in the workspace.']);
+		assert.ok(h.outputLines.includes('[skipped] /work/notes: not a Git repository'));
+	});
+
+	test('shows one quick pick grouped by repository', async () => {
+		const h = createHarness({ folders: ['/work/api', '/work/web'], git: twoRepoGit });
+		await runMultiRepoSweepWorkflow(dryMode, h.deps);
+
+		assert.strictEqual(h.quickPickRequests.length, 1);
+		assert.deepStrictEqual(h.quickPickRequests[0].items, [
+			{ label: 'api', kind: -1 },
+			{ label: 'api/old', description: 'api · upstream gone', picked: true },
+			{ label: 'api/other', description: 'api · upstream gone', picked: true },
+			{ label: 'web', kind: -1 },
+			{ label: 'web/old', description: 'web · upstream gone', picked: true },
+		]);
+	});
+
+	test('deduplicates folders inside the same repository', async () => {
+		const h = createHarness({
+			folders: ['/work/api', '/work/api/packages/client'],
+			git: {
+				...twoRepoGit,
+				'/work/api/packages/client: rev-parse --show-toplevel': { stdout: '/work/api\n' },
+			},
+		});
+		await runMultiRepoSweepWorkflow(dryMode, h.deps);
+
+		assert.strictEqual(h.commands.filter((c) => c.endsWith(': fetch -p')).length, 1);
+	});
+
+	test('includes submodules when enabled', async () => {
+		const h = createHarness({
+			folders: ['/work/api'],
+			config: { includeSubmodules: true },
+			git: {
+				...twoRepoGit,
+				[`${apiRoot}: submodule status --recursive`]: { stdout: ' 1234567 vendor/lib (v1)\n' },
+			},
+		});
+		await runMultiRepoSweepWorkflow(dryMode, h.deps);
+
+		assert.ok(h.commands.includes(`${path.join(apiRoot, 'vendor/lib')}: fetch -p`));
+	});
+
+	test('deletes per repository and reports counts per repository', async () => {
+		const h = createHarness({
+			folders: ['/work/api', '/work/web'],
+			quickPickSelection: (items) => items.filter((i) => i.kind !== -1),
+			git: twoRepoGit,
+		});
+		await runMultiRepoSweepWorkflow(safeMode, h.deps);
+
+		assert.ok(h.commands.includes(`${apiRoot}: branch -d api/old`));
+		assert.ok(h.commands.includes(`${apiRoot}: branch -d api/other`));
+		assert.ok(h.commands.includes(`${webRoot}: branch -d web/old`));
+		assert.deepStrictEqual(h.infoMessages, [
+			'Git Sweep Pro: Deleted 3 branch(es) across 2 repositories (api: 2, web: 1).',
+		]);
+	});
+
+	test('reports partial failures per repository', async () => {
+		const h = createHarness({
+			folders: ['/work/api', '/work/web'],
+			quickPickSelection: (items) => items.filter((i) => i.kind !== -1).map((i) => ({ ...i })),
+			git: {
+				...twoRepoGit,
+				[`${apiRoot}: branch -d api/other`]: new Error('not fully merged'),
+			},
+		});
+		await runMultiRepoSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Deleted 2/3 branch(es) (api: 1/2, web: 1). See "Git Sweep" output for details.',
+		]);
+		assert.ok(h.outputLines.includes('[delete-failed] api/other: not fully merged'));
+	});
+
+	test('keeps sweeping other repositories when one fetch fails', async () => {
+		const h = createHarness({
+			folders: ['/work/api', '/work/web'],
+			git: {
+				...twoRepoGit,
+				[`${apiRoot}: fetch -p`]: new Error('Could not resolve host'),
+			},
+		});
+		await runMultiRepoSweepWorkflow(dryMode, h.deps);
+
+		assert.ok(h.outputLines.includes(`[fetch-failed] ${apiRoot}: Could not resolve host`));
+		assert.deepStrictEqual(
+			h.quickPickRequests[0].items.map((i) => i.label),
+			['web', 'web/old']
+		);
+	});
+
+	test('dry run reports the number of branches and repositories', async () => {
+		const h = createHarness({
+			folders: ['/work/api', '/work/web'],
+			quickPickSelection: (items) => items.filter((i) => i.label === 'api/old' || i.label === 'web/old'),
+			git: twoRepoGit,
+		});
+		await runMultiRepoSweepWorkflow(dryMode, h.deps);
+
+		assert.deepStrictEqual(h.infoMessages, [
+			'Git Sweep Pro (dry run): 2 branch(es) in 2 repositories would be deleted.',
+		]);
+		assert.ok(!h.commands.some((c) => c.includes('branch -d')));
+		assert.ok(h.outputLines.includes('- api: api/old'));
+	});
+});
@@ -1,14 +1,39 @@
 import * as assert from 'assert';
+import { BRANCH_REFS_FORMAT } from '../../core/branch-list';
 import { runPostPullRequestWorkflow } from '../../core/post-pull-request-workflow';
 import type { QuickPickItemLike, SweepWorkflowDeps } from '../../core/sweep-workflow';
 
+const BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads`;
+const ALL_BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads refs/remotes`;
+
+type LocalRefOptions = { upstream?: string; track?: string; current?: boolean; worktree?: string };
+
+/** A local branch line of `git for-each-ref` output in BRANCH_REFS_FORMAT. */
+function localRef(name: string, { upstream = '', track = '', current = false, worktree = '' }: LocalRefOptions = {}): string {
+	return [`refs/heads/${name}`, current ? '*' : ' ', '', upstream, track, worktree].join('\0');
+}
+
+/** A local branch whose upstream origin/<name> was deleted. */
+function goneRef(name: string): string {
+	return localRef(name, { upstream: `origin/${name}`, track: 'gone' });
+}
+
+function remoteRef(name: string): string {
+	return [`refs/remotes/${name}`, ' ', '', '', '', ''].join('\0');
+}
+
 type GitEntry = { stdout?: string; stderr?: string } | Error;
 
 type HarnessOptions = {
 	workspaceRoot?: string;
+	config?: Record<string, unknown>;
 	quickPickSelection?: QuickPickItemLike | undefined;
-	/** Git commands: value or array (for repeated calls, e.g. git branch -vv) */
+	/** Answers for quick picks shown after the branch selection, in order; falls back to quickPickSelection. */
+	followUpSelections?: Array<readonly QuickPickItemLike[] | QuickPickItemLike | undefined>;
+	/** Git commands: value or array (for repeated calls, e.g. listing branches) */
 	git?: Record<string, GitEntry | GitEntry[]>;
+	/** Checked before `git`, for commands whose arguments are only known at run time. */
+	gitHandler?: (command: string) => GitEntry | undefined;
 };
 
 type Harness = {
@@ -31,6 +56,10 @@ function createHarness(options: HarnessOptions = {}): Harness {
 	const callCount: Record<string, number> = {};
 
 	const resolveGitEntry = (command: string): GitEntry | undefined => {
+		const handled = options.gitHandler?.(command);
+		if (handled !== undefined) {
+			return handled;
+		}
 		const entry = options.git?.[command];
 		if (entry === undefined) {
 			return undefined;
@@ -45,6 +74,9 @@ function createHarness(options: HarnessOptions = {}): Harness {
 
 	const deps: SweepWorkflowDeps = {
 		getWorkspaceRoot: () => options.workspaceRoot,
+		config: {
+			get: <T>(section: string, defaultValue: T) => (options.config?.[section] as T | undefined) ?? defaultValue,
+		},
 		output: {
 			show: () => undefined,
 			appendLine: (line) => outputLines.push(line),
@@ -64,11 +96,14 @@ function createHarness(options: HarnessOptions = {}): Harness {
 		ui: {
 			withProgress: async (progress, task) => {
 				progressTitles.push(progress.title);
-				return task();
+				return task({ report: () => undefined }, new AbortController().signal);
 			},
 			showQuickPick: async (items, config) => {
 				quickPickRequests.push({ items, title: config.title });
-				return options.quickPickSelection;
+				const followUp = quickPickRequests.length - 2;
+				return followUp >= 0 && options.followUpSelections && followUp < options.followUpSelections.length
+					? options.followUpSelections[followUp]
+					: options.quickPickSelection;
 			},
 			showInformationMessage: (message) => {
 				infoMessages.push(message);
@@ -82,19 +117,18 @@ function createHarness(options: HarnessOptions = {}): Harness {
 	return { deps, outputLines, infoMessages, errorMessages, commands, progressTitles, quickPickRequests };
 }
 
-const baseBranchAvv = [
-	'* feature/merged 123 [origin/feature/merged: gone] msg',
-	'  main 456 [origin/main] main',
-	'  develop 789 [origin/develop] develop',
-	'  remotes/origin/HEAD -> origin/main',
-	'  remotes/origin/main 43a6a46 0.2.1',
-	'  remotes/origin/develop 43a6a46 develop',
+const baseBranchRefs = [
+	localRef('feature/merged', { upstream: 'origin/feature/merged', track: 'gone', current: true }),
+	localRef('main', { upstream: 'origin/main' }),
+	localRef('develop', { upstream: 'origin/develop' }),
+	remoteRef('origin/main'),
+	remoteRef('origin/develop'),
 ].join('\n');
 
 const baseGit = {
 	'fetch -p': { stdout: '' },
 	'rev-parse --abbrev-ref HEAD': { stdout: 'feature/merged' },
-	'branch -avv': { stdout: baseBranchAvv },
+	[ALL_BRANCH_REFS]: { stdout: baseBranchRefs },
 	'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/origin/HEAD' },
 	'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main' },
 };
@@ -109,21 +143,60 @@ suite('post-pull-request workflow', () => {
 		assert.ok(!h.outputLines.includes('--- Post Pull Request session started ---'));
 	});
 
-	test('handles detached HEAD (current branch is HEAD)', async () => {
+	test('continues in detached HEAD without deleting a previous branch', async () => {
 		const h = createHarness({
 			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
 				'rev-parse --abbrev-ref HEAD': { stdout: 'HEAD' },
+				'rev-parse HEAD': { stdout: 'abc1234def\n' },
+				[ALL_BRANCH_REFS]: {
+					stdout: localRef('main', { upstream: 'origin/main' }),
+				},
+				'checkout main': { stdout: '' },
 			},
 		});
 
 		await runPostPullRequestWorkflow(h.deps);
 
-		assert.deepStrictEqual(h.errorMessages, [
-			'Git Sweep Pro: Could not determine current branch (detached HEAD?).',
-		]);
-		assert.strictEqual(h.quickPickRequests.length, 0);
+		assert.deepStrictEqual(h.errorMessages, []);
+		assert.deepStrictEqual(h.quickPickRequests[0].items.map((i) => i.label), ['main']);
+		assert.ok(h.outputLines.includes('Detached HEAD: no previous branch to delete.'));
+		assert.ok(!h.commands.some((c) => c.startsWith('branch -D')));
+		assert.ok(h.commands.includes('checkout main'));
+		assert.ok(h.commands.includes('pull --ff-only'));
+	});
+
+	test('offers to delete gone branches pointing at the detached commit', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [[{ label: 'feature/reviewed' }]],
+			git: {
+				...baseGit,
+				'rev-parse --abbrev-ref HEAD': { stdout: 'HEAD' },
+				'rev-parse HEAD': { stdout: 'abc1234def\n' },
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						goneRef('feature/reviewed'),
+						goneRef('feature/other'),
+						localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
+				},
+				'for-each-ref --points-at abc1234def --format=%(refname:lstrip=2) refs/heads': { stdout: 'feature/reviewed\n' },
+				'checkout main': { stdout: '' },
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		const cleanup = h.quickPickRequests[1];
+		assert.strictEqual(cleanup?.title, 'Post Pull Request: The detached commit abc1234 is the tip of 1 gone branch(es)');
+		assert.deepStrictEqual(cleanup.items, [{ label: 'feature/reviewed', description: 'upstream gone', picked: false }]);
+		assert.ok(h.commands.includes('branch -D feature/reviewed'));
+		assert.ok(!h.commands.includes('branch -D feature/other'));
+		assert.ok(h.outputLines.includes('Deleted branch: feature/reviewed'));
 	});
 
 	test('handles empty current branch name', async () => {
@@ -138,7 +211,7 @@ suite('post-pull-request workflow', () => {
 		await runPostPullRequestWorkflow(h.deps);
 
 		assert.deepStrictEqual(h.errorMessages, [
-			'Git Sweep Pro: Could not determine current branch (detached HEAD?).',
+			'Git Sweep Pro: Could not determine current branch.',
 		]);
 	});
 
@@ -147,8 +220,8 @@ suite('post-pull-request workflow', () => {
 			workspaceRoot: '/repo',
 			git: {
 				...baseGit,
-				'branch -avv': {
-					stdout: '* feature/merged 123 [origin/feature/merged: gone] msg\n  remotes/origin/HEAD -> origin/main',
+				[ALL_BRANCH_REFS]: {
+					stdout: localRef('feature/merged', { upstream: 'origin/feature/merged', track: 'gone', current: true }),
 				},
 			},
 		});
@@ -179,10 +252,15 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main\n  develop 789 [origin/develop] develop' },
+				[BRANCH_REFS]: {
+					stdout: [
+						localRef('main', { upstream: 'origin/main', current: true }),
+						localRef('develop', { upstream: 'origin/develop' }),
+					].join('\n'),
+				},
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -193,7 +271,7 @@ suite('post-pull-request workflow', () => {
 		assert.ok(h.outputLines.includes('Checked out: main'));
 		assert.ok(h.outputLines.includes('Deleted branch: feature/merged'));
 		assert.ok(h.commands.includes('fetch -p'));
-		assert.ok(h.commands.includes('pull'));
+		assert.ok(h.commands.includes('pull --ff-only'));
 		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Switched to main and pulled.']);
 		assert.ok(h.outputLines.includes('--- Post Pull Request session ended ---'));
 	});
@@ -204,11 +282,11 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'origin/main (remote)' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main', current: true }) },
 				'checkout main': new Error('error: pathspec did not match'),
 				'checkout -b main --track origin/main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -226,10 +304,10 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main', current: true }) },
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -248,10 +326,10 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main', current: true }) },
 				'checkout main': new Error('fatal: pathspec main did not match any file(s) known to git'),
 				'branch -D feature/merged': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -261,7 +339,7 @@ suite('post-pull-request workflow', () => {
 			'Git Sweep Pro: Checkout failed: fatal: pathspec main did not match any file(s) known to git',
 		]);
 		assert.ok(!h.commands.includes('branch -D feature/merged'));
-		assert.ok(!h.commands.includes('pull'));
+		assert.ok(!h.commands.includes('pull --ff-only'));
 		assert.ok(h.outputLines.some((l) => l.includes('Checkout failed')));
 		assert.ok(h.outputLines.includes('--- Post Pull Request session ended ---'));
 	});
@@ -272,10 +350,10 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main', current: true }) },
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': new Error('error: Cannot delete branch \'feature/merged\' checked out'),
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -284,7 +362,7 @@ suite('post-pull-request workflow', () => {
 		assert.deepStrictEqual(h.errorMessages, [
 			'Git Sweep Pro: Could not delete branch "feature/merged". You can delete it manually with: git branch -D "feature/merged"',
 		]);
-		assert.ok(h.commands.includes('pull'));
+		assert.ok(h.commands.includes('pull --ff-only'));
 		assert.ok(h.outputLines.includes('Checked out: main'));
 		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Switched to main and pulled.']);
 	});
@@ -296,15 +374,24 @@ suite('post-pull-request workflow', () => {
 			git: {
 				...baseGit,
 				'rev-parse --abbrev-ref HEAD': { stdout: 'feature/merged' },
-				'branch -avv': {
-					stdout: '* feature/merged 123 [origin/feature/merged: gone] msg\n  feature/auth/oauth 456 msg\n  main 789 [origin/main] main\n  remotes/origin/HEAD -> origin/main',
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						localRef('feature/merged', { upstream: 'origin/feature/merged', track: 'gone', current: true }),
+						localRef('feature/auth/oauth'),
+						localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
+				},
+				[BRANCH_REFS]: [
+					{
+					stdout: [
+							localRef('feature/auth/oauth', { current: true }),
+							localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
 				},
-				'branch -vv': [
-					{ stdout: '* feature/auth/oauth 456 msg\n  main 789 [origin/main] main' },
 				],
 				'checkout feature/auth/oauth': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': new Error(
+				'pull --ff-only': new Error(
 					'There is no tracking information for the current branch.\nPlease specify which branch you want to merge with.'
 				),
 			},
@@ -326,10 +413,10 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main', current: true }) },
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': new Error('error: Your local changes would be overwritten by merge.'),
+				'pull --ff-only': new Error('error: Your local changes would be overwritten by merge.'),
 			},
 		});
 
@@ -347,11 +434,16 @@ suite('post-pull-request workflow', () => {
 			quickPickSelection: { label: 'main' },
 			git: {
 				...baseGit,
-				'branch -vv': { stdout: '* main 456 [origin/main] main\n  stale 789 [origin/stale: gone] msg' },
+				[BRANCH_REFS]: {
+					stdout: [
+						localRef('main', { upstream: 'origin/main', current: true }),
+						goneRef('stale'),
+					].join('\n'),
+				},
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
 				"branch -d stale": { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -359,8 +451,8 @@ suite('post-pull-request workflow', () => {
 
 		const fetchCount = h.commands.filter((c) => c === 'fetch -p').length;
 		assert.ok(fetchCount >= 2, 'Should fetch at least twice (post-PR + sweep)');
-		assert.ok(h.commands.includes('branch -avv'), 'Should run branch -avv once for post-PR');
-		assert.ok(h.commands.includes('branch -vv'), 'Sweep workflow should run branch -vv');
+		assert.ok(h.commands.includes(ALL_BRANCH_REFS), 'Should list local and remote branches for post-PR');
+		assert.ok(h.commands.includes(BRANCH_REFS), 'Sweep workflow should list local branches');
 		assert.ok(h.commands.includes('branch -d stale'), 'Sweep should delete stale branch');
 	});
 
@@ -403,13 +495,18 @@ suite('post-pull-request workflow', () => {
 				...baseGit,
 				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/upstream/HEAD' },
 				'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': { stdout: 'upstream/main' },
-				'branch -avv': {
-					stdout: '* feature/merged 123 [upstream/feature/merged: gone] msg\n  main 456 [upstream/main] main\n  remotes/upstream/HEAD -> upstream/main\n  remotes/upstream/main 43a6a46 main\n  remotes/upstream/develop 43a6a46 develop',
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						localRef('feature/merged', { upstream: 'upstream/feature/merged', track: 'gone', current: true }),
+						localRef('main', { upstream: 'upstream/main' }),
+						remoteRef('upstream/main'),
+						remoteRef('upstream/develop'),
+					].join('\n'),
 				},
-				'branch -vv': { stdout: '* main 456 [upstream/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'upstream/main', current: true }) },
 				'checkout main': { stdout: '' },
 				'branch -D feature/merged': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -428,15 +525,24 @@ suite('post-pull-request workflow', () => {
 			git: {
 				...baseGit,
 				'rev-parse --abbrev-ref HEAD': { stdout: 'team/subteam/merged-pr' },
-				'branch -avv': {
-					stdout: '* team/subteam/merged-pr 123 [origin/team/subteam/merged-pr: gone] msg\n  feature/auth/oauth 456 [origin/feature/auth/oauth] oauth\n  main 789 [origin/main] main\n  remotes/origin/HEAD -> origin/main',
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						localRef('team/subteam/merged-pr', { upstream: 'origin/team/subteam/merged-pr', track: 'gone', current: true }),
+						localRef('feature/auth/oauth', { upstream: 'origin/feature/auth/oauth' }),
+						localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
+				},
+				[BRANCH_REFS]: [
+					{
+					stdout: [
+							localRef('feature/auth/oauth', { upstream: 'origin/feature/auth/oauth', current: true }),
+							localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
 				},
-				'branch -vv': [
-					{ stdout: '* feature/auth/oauth 456 [origin/feature/auth/oauth] oauth\n  main 789 [origin/main] main' },
 				],
 				'checkout feature/auth/oauth': { stdout: '' },
 				'branch -D team/subteam/merged-pr': { stdout: '' },
-				'pull': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
 			},
 		});
 
@@ -445,4 +551,257 @@ suite('post-pull-request workflow', () => {
 		assert.ok(h.commands.includes('checkout feature/auth/oauth'));
 		assert.ok(h.commands.includes('branch -D team/subteam/merged-pr'));
 	});
+
+	test('never deletes a protected previous branch', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			git: {
+				...baseGit,
+				'rev-parse --abbrev-ref HEAD': { stdout: 'develop' },
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						localRef('develop', { upstream: 'origin/develop', track: 'gone', current: true }),
+						localRef('main', { upstream: 'origin/main' }),
+					].join('\n'),
+				},
+				'checkout main': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(!h.commands.includes('branch -D develop'));
+		assert.ok(h.outputLines.includes('[protected] develop: not deleted (matches "develop")'));
+		assert.ok(h.infoMessages.includes(
+			'Git Sweep Pro: Kept branch "develop" because it matches the protected pattern "develop".'
+		));
+		assert.ok(h.commands.includes('pull --ff-only'));
+	});
+
+	test('stashes uncommitted changes before checkout and re-applies them after pull', async () => {
+		let stashLabel = '';
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [{ label: 'Stash and re-apply' }],
+			git: {
+				...baseGit,
+				'status --porcelain': { stdout: ' M src/a.ts\n?? notes.txt\n' },
+				'checkout main': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
+				'stash pop stash@{0}': { stdout: '' },
+			},
+			gitHandler: (command) => {
+				if (command.startsWith('stash push --include-untracked -m ')) {
+					stashLabel = command.slice('stash push --include-untracked -m '.length);
+					return { stdout: '' };
+				}
+				if (command === 'stash list --format=%gd%x00%gs') {
+					return { stdout: stashLabel ? `stash@{0}\0On feature/merged: ${stashLabel}\n` : '' };
+				}
+				return undefined;
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.strictEqual(h.quickPickRequests[1]?.title, 'Post Pull Request: "feature/merged" has 2 uncommitted change(s)');
+		assert.ok(stashLabel.startsWith('git-sweep-pro: post pull request from feature/merged at '));
+		const stashIndex = h.commands.findIndex((c) => c.startsWith('stash push'));
+		assert.ok(stashIndex >= 0 && stashIndex < h.commands.indexOf('checkout main'));
+		assert.ok(h.commands.indexOf('stash pop stash@{0}') > h.commands.indexOf('pull --ff-only'));
+		assert.ok(h.outputLines.includes('Re-applied stashed changes.'));
+		assert.deepStrictEqual(h.errorMessages, []);
+	});
+
+	test('reports conflicts when re-applying the stash and keeps it', async () => {
+		let stashLabel = '';
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [{ label: 'Stash and re-apply' }],
+			git: {
+				...baseGit,
+				'status --porcelain': { stdout: ' M src/a.ts\n' },
+				'checkout main': { stdout: '' },
+				'pull --ff-only': { stdout: '' },
+				'stash pop stash@{0}': new Error('CONFLICT (content): Merge conflict in src/a.ts'),
+				'diff --name-only --diff-filter=U': { stdout: 'src/a.ts\n' },
+			},
+			gitHandler: (command) => {
+				if (command.startsWith('stash push --include-untracked -m ')) {
+					stashLabel = command.slice('stash push --include-untracked -m '.length);
+					return { stdout: '' };
+				}
+				if (command === 'stash list --format=%gd%x00%gs') {
+					return { stdout: stashLabel ? `stash@{0}\0On feature/merged: ${stashLabel}\n` : '' };
+				}
+				return undefined;
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, [
+			`Git Sweep Pro: Re-applying your changes caused conflicts in src/a.ts. Resolve them; the changes are kept in stash@{0} ("${stashLabel}").`,
+		]);
+		assert.ok(h.outputLines.includes('[stash-conflict] src/a.ts'));
+	});
+
+	test('stops before checkout when the user cancels the uncommitted-changes prompt', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [undefined],
+			git: {
+				...baseGit,
+				'status --porcelain': { stdout: ' M src/a.ts\n' },
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(!h.commands.includes('checkout main'));
+		assert.ok(!h.commands.some((c) => c.startsWith('stash')));
+		assert.ok(h.outputLines.includes('Operation cancelled: working tree has uncommitted changes.'));
+	});
+
+	test('carries changes over without stashing when chosen', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [{ label: 'Carry changes over' }],
+			git: {
+				...baseGit,
+				'status --porcelain': { stdout: ' M src/a.ts\n' },
+				'checkout main': new Error('error: Your local changes to the following files would be overwritten by checkout:'),
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(!h.commands.some((c) => c.startsWith('stash')));
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Checkout failed: error: Your local changes to the following files would be overwritten by checkout: Your uncommitted changes may conflict with main; stash or commit them first.',
+		]);
+	});
+
+	test('uses the configured pull strategy and echoes it', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { 'postPullRequest.pullStrategy': 'rebase' },
+			quickPickSelection: { label: 'main' },
+			git: { ...baseGit, 'checkout main': { stdout: '' } },
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(h.commands.includes('pull --rebase'));
+		assert.ok(h.outputLines.includes('Pull strategy: rebase'));
+		assert.ok(h.infoMessages.includes('Git Sweep Pro: Switched to main and pulled.'));
+	});
+
+	test('merge strategy overrides pull.ff=only', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { 'postPullRequest.pullStrategy': 'merge' },
+			quickPickSelection: { label: 'main' },
+			git: { ...baseGit, 'checkout main': { stdout: '' } },
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(h.commands.includes('pull --no-rebase --ff'));
+	});
+
+	test('fetch-only strategy does not pull', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { 'postPullRequest.pullStrategy': 'fetch-only' },
+			quickPickSelection: { label: 'main' },
+			git: { ...baseGit, 'checkout main': { stdout: '' } },
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(!h.commands.some((c) => c.startsWith('pull')));
+		assert.ok(h.infoMessages.includes('Git Sweep Pro: Switched to main. (fetch-only—not pulled.)'));
+	});
+
+	test('offers to reset a diverged branch to the remote when fast-forward fails', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [{ label: 'Reset to remote' }],
+			git: {
+				...baseGit,
+				'checkout main': { stdout: '' },
+				'pull --ff-only': new Error('fatal: Not possible to fast-forward, aborting.'),
+				'rev-list --left-right --count @{u}...HEAD': { stdout: '3\t1\n' },
+				'rev-parse HEAD': { stdout: 'abc123\n' },
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		const divergedPrompt = h.quickPickRequests.find((r) => r.title === 'Post Pull Request: "main" has diverged from its upstream');
+		assert.ok(divergedPrompt);
+		assert.ok(h.outputLines.includes('[diverged] main: 1 local and 3 remote commit(s)'));
+		assert.ok(h.commands.includes('reset --keep @{u}'));
+		assert.ok(h.outputLines.includes('Reset main to its upstream. Previous tip: abc123'));
+		assert.ok(h.infoMessages.includes('Git Sweep Pro: Switched to main and reset it to the remote.'));
+		assert.deepStrictEqual(h.errorMessages, []);
+	});
+
+	test('keeps local commits on a diverged branch when chosen', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: { label: 'main' },
+			followUpSelections: [{ label: 'Keep local commits' }],
+			git: {
+				...baseGit,
+				'checkout main': { stdout: '' },
+				'pull --ff-only': new Error('fatal: Not possible to fast-forward, aborting.'),
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.ok(!h.commands.some((c) => c.startsWith('reset')));
+		assert.ok(h.infoMessages.includes('Git Sweep Pro: Switched to main. It has diverged from the remote and was not pulled.'));
+	});
+
+	test('marks only the default remote branch as default in fork setups', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { preferredRemote: 'upstream' },
+			git: {
+				...baseGit,
+				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': {
+					stdout: 'refs/remotes/origin/HEAD\nrefs/remotes/upstream/HEAD',
+				},
+				'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': { stdout: 'upstream/main' },
+				[ALL_BRANCH_REFS]: {
+					stdout: [
+						localRef('feature/merged', { upstream: 'origin/feature/merged', track: 'gone', current: true }),
+						remoteRef('origin/main'),
+						remoteRef('upstream/main'),
+					].join('\n'),
+				},
+			},
+		});
+
+		await runPostPullRequestWorkflow(h.deps);
+
+		assert.deepStrictEqual(
+			h.quickPickRequests[0].items.map((i) => [i.label, i.description, i.picked]),
+			[
+				['origin/main (remote)', 'remote', false],
+				['upstream/main (remote)', 'remote, default on upstream', true],
+			]
+		);
+		assert.ok(h.outputLines.includes('Default branch: upstream/main'));
+	});
 });
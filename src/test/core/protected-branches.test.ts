@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { findProtectedPattern, globToRegExp } from '../../core/protected-branches';
+
+suite('protected-branches', () => {
+	test('globToRegExp treats * as a single path segment', () => {
+		const re = globToRegExp('release/*');
+		assert.ok(re.test('release/1.0'));
+		assert.ok(!re.test('release/1.0/hotfix'));
+		assert.ok(!re.test('release'));
+	});
+
+	test('globToRegExp treats ** as any depth', () => {
+		const re = globToRegExp('release/**');
+		assert.ok(re.test('release/1.0'));
+		assert.ok(re.test('release/2026/10/rc1'));
+	});
+
+	test('globToRegExp supports ? and escapes regex characters', () => {
+		assert.ok(globToRegExp('v?.x').test('v1.x'));
+		assert.ok(!globToRegExp('v?.x').test('v1ax'));
+		assert.ok(globToRegExp('feat(+)').test('feat(+)'));
+	});
+
+	test('globToRegExp matches whole names only', () => {
+		assert.ok(!globToRegExp('main').test('main-old'));
+		assert.ok(!globToRegExp('main').test('feature/main'));
+	});
+
+	test('findProtectedPattern returns the first matching pattern', () => {
+		assert.strictEqual(findProtectedPattern('develop', ['main', 'develop', 'dev*']), 'develop');
+		assert.strictEqual(findProtectedPattern('feature/x', ['main', 'develop']), undefined);
+	});
+
+	test('findProtectedPattern ignores blank patterns and surrounding whitespace', () => {
+		assert.strictEqual(findProtectedPattern('main', ['', '  ']), undefined);
+		assert.strictEqual(findProtectedPattern('main', [' main ']), ' main ');
+	});
+});
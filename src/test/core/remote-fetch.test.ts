@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { fetchAndPruneRemotes, parseFailedFetchRemotes } from '../../core/remote-fetch';
+import { createWorkflowHarness, type GitEntry, type WorkflowHarness } from './workflow-harness';
+
+function createHarness(git: Record<string, GitEntry>, config: Record<string, unknown> = {}): WorkflowHarness {
+	return createWorkflowHarness({ git, config });
+}
+
+const fetchFailure = (stderr: string) => Object.assign(new Error(`Command failed: git fetch\n${stderr}`), { code: 1, stderr });
+
+suite('remote fetch', () => {
+	test('fetches and prunes every remote in parallel with one git process', async () => {
+		const h = createHarness({ remote: { stdout: 'origin\nupstream\n' } });
+
+		const result = await fetchAndPruneRemotes('/repo', h.deps);
+
+		assert.deepStrictEqual(result, { fetched: ['origin', 'upstream'], failed: [] });
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch --multiple --prune --jobs=2 origin upstream']);
+		assert.ok(h.outputLines.includes('Fetched and pruned: origin, upstream'));
+	});
+
+	test('caps the number of parallel fetch jobs', async () => {
+		const h = createHarness({ remote: { stdout: 'a\nb\nc\nd\ne\n' } });
+
+		await fetchAndPruneRemotes('/repo', h.deps);
+
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch --multiple --prune --jobs=4 a b c d e']);
+	});
+
+	test('keeps going when one remote fails', async () => {
+		const h = createHarness({
+			remote: { stdout: 'origin\nfork\n' },
+			'fetch --multiple --prune --jobs=2 origin fork': fetchFailure(
+				"fatal: unable to access 'https://fork.example/': Could not resolve host: fork.example\nerror: could not fetch 'fork' (exit code: 128)\n"
+			),
+		});
+
+		const result = await fetchAndPruneRemotes('/repo', h.deps);
+
+		assert.deepStrictEqual(result.fetched, ['origin']);
+		assert.deepStrictEqual(result.failed.map((f) => f.remote), ['fork']);
+		assert.ok(h.outputLines.some((line) => line.startsWith('[fetch-failed] fork: Command failed: git fetch')));
+		assert.ok(h.outputLines.includes('Branches tracking fork were not pruned and may not show as gone.'));
+	});
+
+	test('reads failed remotes from sequential fetch errors too', () => {
+		assert.deepStrictEqual(
+			parseFailedFetchRemotes('error: could not fetch fork\nerror: could not fetch \'mirror\' (exit code: 1)\n', ['origin', 'fork', 'mirror']),
+			['fork', 'mirror']
+		);
+	});
+
+	test('counts every remote as failed when git does not name one', async () => {
+		const h = createHarness({
+			remote: { stdout: 'origin\nfork\n' },
+			'fetch --multiple --prune --jobs=2 origin fork': fetchFailure('fatal: something new\n'),
+		});
+
+		await assert.rejects(() => fetchAndPruneRemotes('/repo', h.deps), /something new/);
+		assert.strictEqual(h.outputLines.filter((line) => line.startsWith('[fetch-failed]')).length, 2);
+	});
+
+	test('throws when every remote fails', async () => {
+		const h = createHarness({
+			remote: { stdout: 'origin\n' },
+			'fetch -p origin': new Error('fatal: unable to access'),
+		});
+
+		await assert.rejects(() => fetchAndPruneRemotes('/repo', h.deps), /unable to access/);
+	});
+
+	test('rethrows cancellation', async () => {
+		const h = createHarness({
+			remote: { stdout: 'origin\nupstream\nfork\n' },
+			'fetch --multiple --prune --jobs=3 origin upstream fork': Object.assign(new Error('The operation was aborted'), {
+				name: 'AbortError',
+			}),
+		});
+
+		await assert.rejects(() => fetchAndPruneRemotes('/repo', h.deps), { name: 'AbortError' });
+		assert.ok(!h.outputLines.some((line) => line.startsWith('[fetch-failed]')));
+	});
+
+	test('only fetches the remotes in the fetchRemotes setting', async () => {
+		const h = createHarness({ remote: { stdout: 'origin\nupstream\nmirror\n' } }, { fetchRemotes: ['upstream', 'gone'] });
+
+		const result = await fetchAndPruneRemotes('/repo', h.deps);
+
+		assert.deepStrictEqual(result.fetched, ['upstream']);
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch -p upstream']);
+		assert.ok(h.outputLines.includes('[skipped] gone: no such remote'));
+	});
+
+	test('falls back to a plain fetch when no remote is listed', async () => {
+		const h = createHarness({});
+
+		assert.deepStrictEqual(await fetchAndPruneRemotes('/repo', h.deps), { fetched: [], failed: [] });
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch -p']);
+	});
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import { findMergedRemoteBranches, runRemoteSweepWorkflow } from '../../core/remote-sweep-workflow';
+import { createWorkflowHarness, type GitEntry } from './workflow-harness';
+
+const MERGED_FORMAT = '--format=%(refname)%00%(objectname)%00%(symref)';
+
+/** A line of `git for-each-ref --merged` output in MERGED_FORMAT. */
+function remoteRef(name: string, sha: string, symref = ''): string {
+	return [`refs/remotes/${name}`, sha, symref].join('\0');
+}
+
+const defaultBranchGit: Record<string, GitEntry> = {
+	remote: { stdout: 'origin\n' },
+	'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/origin/HEAD\n' },
+	'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main\n' },
+	[`for-each-ref --merged origin/main ${MERGED_FORMAT} refs/remotes/origin`]: {
+		stdout: [
+			remoteRef('origin/HEAD', 'aaa111', 'refs/remotes/origin/main'),
+			remoteRef('origin/main', 'aaa111'),
+			remoteRef('origin/feature/done', 'bbb222'),
+			remoteRef('origin/release/1.0', 'ccc333'),
+			remoteRef('origin/fix/typo', 'ddd444'),
+			'',
+		].join('\n'),
+	},
+};
+
+suite('remote-sweep-workflow', () => {
+	test('findMergedRemoteBranches keeps only merged branches of the remote', async () => {
+		const { deps } = createWorkflowHarness({ git: defaultBranchGit });
+
+		const branches = await findMergedRemoteBranches('/repo', 'origin', 'main', deps);
+
+		assert.deepStrictEqual(branches, [
+			{ name: 'feature/done', sha: 'bbb222' },
+			{ name: 'release/1.0', sha: 'ccc333' },
+			{ name: 'fix/typo', sha: 'ddd444' },
+		]);
+	});
+
+	test('offers unprotected merged branches and deletes the selection on the remote', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				...defaultBranchGit,
+				'push --force-with-lease=refs/heads/fix/typo:ddd444 origin --delete fix/typo': new Error('! [rejected] fix/typo (stale info)'),
+			},
+			quickPickSelection: (items) => items,
+		});
+
+		await runRemoteSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(
+			harness.quickPickRequests[0].items,
+			[
+				{ label: 'origin/feature/done', description: 'merged into main' },
+				{ label: 'origin/fix/typo', description: 'merged into main' },
+			]
+		);
+		assert.ok(harness.outputLines.includes('[protected] origin/release/1.0: skipped (matches "release/**")'));
+		assert.ok(harness.commands.includes('fetch -p origin'));
+		assert.ok(harness.commands.includes('push --force-with-lease=refs/heads/feature/done:bbb222 origin --delete feature/done'));
+		assert.ok(harness.outputLines.includes('Deleted remote branch: origin/feature/done'));
+		assert.ok(harness.outputLines.includes('[delete-failed] origin/fix/typo: ! [rejected] fix/typo (stale info)'));
+		assert.deepStrictEqual(harness.errorMessages, [
+			'Git Sweep Pro: Deleted 1/2 branch(es) from origin. See "Git Sweep" output for details.',
+		]);
+	});
+
+	test('stops pushing when cancelled and summarises what was left', async () => {
+		const harness = createWorkflowHarness({
+			git: defaultBranchGit,
+			quickPickSelection: (items) => items,
+			/* The running push finishes; the next branch is not attempted */
+			cancelOnProgress: 'Deleting 1/2: origin/feature/done',
+		});
+
+		await runRemoteSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(harness.commands.filter((c) => c.startsWith('push')), [
+			'push --force-with-lease=refs/heads/feature/done:bbb222 origin --delete feature/done',
+		]);
+		assert.ok(harness.outputLines.includes('[cancelled] 1 branch(es) not deleted: origin/fix/typo'));
+		assert.deepStrictEqual(harness.errorMessages, []);
+		assert.deepStrictEqual(harness.infoMessages, [
+			'Git Sweep Pro: Cancelled after deleting 1/2 branch(es) from origin; 1 not deleted.',
+		]);
+	});
+
+	test('treats a cancelled fetch as a clean stop', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				...defaultBranchGit,
+				'fetch -p origin': Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }),
+			},
+		});
+
+		await runRemoteSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(harness.errorMessages, []);
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro: Remote sweep cancelled. No remote branches were deleted.']);
+		assert.ok(!harness.commands.some((c) => c.startsWith('push')));
+	});
+
+	test('dry run lists the selection without pushing', async () => {
+		const harness = createWorkflowHarness({
+			git: defaultBranchGit,
+			quickPickSelection: (items) => items.slice(0, 1),
+		});
+
+		await runRemoteSweepWorkflow({ dryRun: true }, harness.deps);
+
+		assert.ok(harness.outputLines.includes('- origin/feature/done'));
+		assert.ok(!harness.commands.some((c) => c.startsWith('push')));
+		assert.deepStrictEqual(harness.infoMessages, [
+			'Git Sweep Pro (dry run): 1 branch(es) would be deleted from origin.',
+		]);
+	});
+
+	test('fetches the swept remote even when fetchRemotes leaves it out', async () => {
+		const harness = createWorkflowHarness({
+			config: { preferredRemote: 'upstream', fetchRemotes: ['origin'] },
+			git: {
+				remote: { stdout: 'origin\nupstream\n' },
+				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/upstream/HEAD\n' },
+				'rev-parse --abbrev-ref refs/remotes/upstream/HEAD': { stdout: 'upstream/main\n' },
+			},
+		});
+
+		await runRemoteSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(
+			harness.commands.filter((c) => c.startsWith('fetch')),
+			['fetch -p origin', 'fetch -p upstream']
+		);
+		assert.ok(harness.commands.includes(`for-each-ref --merged upstream/main ${MERGED_FORMAT} refs/remotes/upstream`));
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro: No merged branches found on upstream.']);
+	});
+
+	test('reports a missing remote default branch', async () => {
+		const harness = createWorkflowHarness();
+
+		await runRemoteSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.strictEqual(harness.quickPickRequests.length, 0);
+		assert.strictEqual(harness.errorMessages.length, 1);
+		assert.ok(harness.errorMessages[0].startsWith('Git Sweep Pro: No remote default branch found.'));
+	});
+});
@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import { createDeletionJournal, type DeletionJournalEntry, type MementoLike } from '../../core/deletion-journal';
+import { runRestoreWorkflow, type RestoreWorkflowDeps } from '../../core/restore-workflow';
+import { createWorkflowHarness, type WorkflowHarness, type WorkflowHarnessOptions } from './workflow-harness';
+
+type HarnessOptions = WorkflowHarnessOptions & {
+	entries?: DeletionJournalEntry[];
+	/** Repository key the entries are stored under; defaults to the workspace root. */
+	journalKey?: string;
+};
+
+/** The shared harness with a deletion journal seeded with `entries`. */
+function createHarness({ entries, journalKey, ...options }: HarnessOptions = {}): WorkflowHarness & { deps: RestoreWorkflowDeps } {
+	const harness = createWorkflowHarness(options);
+	const store = new Map<string, unknown>();
+	const memento: MementoLike = {
+		get: <T>(key: string) => store.get(key) as T | undefined,
+		update: async (key, value) => {
+			store.set(key, value);
+		},
+	};
+	const key = journalKey ?? harness.deps.getWorkspaceRoot();
+	if (key && entries) {
+		store.set(`gitSweepPro.deletionJournal:${key}`, entries);
+	}
+	return { ...harness, deps: { ...harness.deps, journal: createDeletionJournal(memento) } };
+}
+
+const trackedEntry: DeletionJournalEntry = {
+	branch: 'feature/one',
+	sha: 'abc1234def',
+	upstreamRemote: 'origin',
+	upstreamMerge: 'refs/heads/feature/one',
+	deletedAt: '2026-10-18T09:30:12.000Z',
+	mode: 'force',
+};
+
+const localEntry: DeletionJournalEntry = {
+	branch: 'local/two',
+	sha: '9876543fed',
+	deletedAt: '2026-10-17T08:00:00.000Z',
+	mode: 'safe',
+};
+
+suite('restore workflow', () => {
+	test('fails fast when no workspace is open', async () => {
+		const h = createHarness({ workspaceRoot: undefined });
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, ['Git Sweep Pro: No workspace folder is open.']);
+		assert.deepStrictEqual(h.commands, []);
+	});
+
+	test('reports an empty journal without prompting', async () => {
+		const h = createHarness({ workspaceRoot: '/repo' });
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: No deleted branches recorded for this repository.']);
+		assert.strictEqual(h.quickPickRequests.length, 0);
+	});
+
+	test('lists journal entries with SHA, mode, upstream and deletion time', async () => {
+		const h = createHarness({ workspaceRoot: '/repo', entries: [trackedEntry, localEntry] });
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.quickPickRequests[0]?.items, [
+			{ label: 'feature/one', description: 'abc1234, -D, origin/feature/one', detail: 'Deleted 2026-10-18 09:30' },
+			{ label: 'local/two', description: '9876543, -d', detail: 'Deleted 2026-10-17 08:00' },
+		]);
+		assert.ok(h.outputLines.includes('Operation cancelled or no branches selected.'));
+		assert.strictEqual(h.outputLines.at(-1), '--- Restore session ended ---');
+	});
+
+	test('recreates branch and upstream config, then drops the journal entry', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			entries: [trackedEntry, localEntry],
+			quickPickSelection: (items) => [items[0], items[1]],
+		});
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.commands, [
+			'rev-parse --git-common-dir',
+			'rev-parse --git-common-dir',
+			'branch feature/one abc1234def',
+			'config branch.feature/one.remote origin',
+			'config branch.feature/one.merge refs/heads/feature/one',
+			'rev-parse --git-common-dir',
+			'branch local/two 9876543fed',
+		]);
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Restored 2 branch(es).']);
+		assert.deepStrictEqual(h.deps.journal.list('/repo'), []);
+	});
+
+	test('matches selection by label and description when items are copies', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			entries: [trackedEntry, localEntry],
+			quickPickSelection: (items) => [{ ...items[1] }],
+		});
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.commands.filter((c) => c.startsWith('branch')), ['branch local/two 9876543fed']);
+	});
+
+	test('keeps failed entries in the journal and reports partial success', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			entries: [trackedEntry, localEntry],
+			quickPickSelection: (items) => items,
+			git: {
+				'branch feature/one abc1234def': new Error("fatal: a branch named 'feature/one' already exists"),
+			},
+		});
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Restored 1/2 branch(es). See "Git Sweep" output for details.',
+		]);
+		assert.ok(h.outputLines.some((l) => l.startsWith('[restore-failed] feature/one: fatal: a branch named')));
+		assert.deepStrictEqual(h.deps.journal.list('/repo'), [trackedEntry]);
+	});
+
+	test('deletes the recreated branch and keeps the entry when its upstream cannot be set', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			entries: [trackedEntry],
+			quickPickSelection: (items) => items,
+			git: {
+				'config branch.feature/one.merge refs/heads/feature/one': new Error('error: could not lock config file .git/config: File exists'),
+			},
+		});
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.commands.slice(-3), [
+			'config branch.feature/one.remote origin',
+			'config branch.feature/one.merge refs/heads/feature/one',
+			'branch -D feature/one',
+		]);
+		assert.deepStrictEqual(h.errorMessages, ['Git Sweep Pro: Restored 0/1 branch(es). See "Git Sweep" output for details.']);
+		assert.deepStrictEqual(h.deps.journal.list('/repo'), [trackedEntry]);
+	});
+
+	test('finds entries recorded for the repository when opened in a subfolder', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo/packages/app',
+			journalKey: '/repo/.git',
+			entries: [localEntry],
+			quickPickSelection: (items) => items,
+			git: {
+				'rev-parse --git-common-dir': { stdout: '/repo/.git\n' },
+			},
+		});
+		await runRestoreWorkflow(h.deps);
+
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Restored 1 branch(es).']);
+		assert.deepStrictEqual(h.deps.journal.list('/repo/.git'), []);
+	});
+});
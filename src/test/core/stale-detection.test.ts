@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { describeStaleBranch, findStaleBranches, parseAheadBehind } from '../../core/stale-detection';
+
+const listStale = 'for-each-ref --format=%(refname:lstrip=2)%00%(committerdate:unix)%00%(authorname)%00%(HEAD) refs/heads';
+const now = new Date('2026-10-18T00:00:00Z');
+const daysAgo = (days: number) => String(Math.floor(now.getTime() / 1000) - days * 24 * 60 * 60);
+
+function createRunGit(git: Record<string, { stdout?: string } | Error>) {
+	const commands: string[] = [];
+	const runGit = async (args: string[]) => {
+		const key = args.join(' ');
+		commands.push(key);
+		const entry = git[key];
+		if (entry instanceof Error) {
+			throw entry;
+		}
+		return { stdout: entry?.stdout ?? '', stderr: '' };
+	};
+	return { runGit, commands };
+}
+
+suite('stale-detection', () => {
+	test('parseAheadBehind reads behind/ahead counts', () => {
+		assert.deepStrictEqual(parseAheadBehind('15\t2\n'), { behind: 15, ahead: 2 });
+		assert.strictEqual(parseAheadBehind(''), undefined);
+	});
+
+	test('describeStaleBranch includes age, author and counts', () => {
+		assert.strictEqual(
+			describeStaleBranch({ branch: 'x', ageDays: 143, author: 'Sam Doe', ahead: 2, behind: 15 }, 'main'),
+			'143 days old · Sam Doe · 2 ahead, 15 behind main'
+		);
+		assert.strictEqual(describeStaleBranch({ branch: 'x', ageDays: 100, author: '' }), '100 days old');
+	});
+
+	test('lists branches older than the threshold, oldest first, with ahead/behind', async () => {
+		const { runGit } = createRunGit({
+			[listStale]: {
+				stdout: [
+					`fresh\0${daysAgo(3)}\0Ann\0`,
+					`old\0${daysAgo(120)}\0Bob\0`,
+					`older\0${daysAgo(400)}\0Cy\0`,
+				].join('\n'),
+			},
+			'rev-list --left-right --count origin/main...old': { stdout: '4\t1\n' },
+			'rev-list --left-right --count origin/main...older': new Error('bad revision'),
+		});
+
+		const result = await findStaleBranches(runGit, {
+			now,
+			staleAfterDays: 90,
+			baseRef: 'origin/main',
+			exclude: new Set(),
+		});
+
+		assert.deepStrictEqual(result, [
+			{ branch: 'older', ageDays: 400, author: 'Cy' },
+			{ branch: 'old', ageDays: 120, author: 'Bob', ahead: 1, behind: 4 },
+		]);
+	});
+
+	test('skips the checked-out branch and excluded branches', async () => {
+		const { runGit, commands } = createRunGit({
+			[listStale]: {
+				stdout: [`current\0${daysAgo(200)}\0Ann\0*`, `main\0${daysAgo(200)}\0Ann\0`].join('\n'),
+			},
+		});
+
+		const result = await findStaleBranches(runGit, { now, staleAfterDays: 90, exclude: new Set(['main']) });
+
+		assert.deepStrictEqual(result, []);
+		assert.deepStrictEqual(commands, [listStale]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { createStashLabel, findStashRef, reapplyStash } from '../../core/stash';
+
+function createRunGit(git: Record<string, { stdout?: string } | Error>) {
+	const commands: string[] = [];
+	const runGit = async (args: string[]) => {
+		const key = args.join(' ');
+		commands.push(key);
+		const entry = git[key];
+		if (entry instanceof Error) {
+			throw entry;
+		}
+		return { stdout: entry?.stdout ?? '', stderr: '' };
+	};
+	return { runGit, commands };
+}
+
+const label = createStashLabel('feature/x', new Date('2026-10-18T08:30:00Z'));
+const stashList = [
+	'stash@{0}\0On main: unrelated work',
+	`stash@{1}\0On feature/x: ${label}`,
+].join('\n');
+
+suite('stash', () => {
+	test('createStashLabel names the branch and time', () => {
+		assert.strictEqual(label, 'git-sweep-pro: post pull request from feature/x at 2026-10-18T08:30:00.000Z');
+	});
+
+	test('findStashRef locates the labelled stash among others', async () => {
+		const { runGit } = createRunGit({ 'stash list --format=%gd%x00%gs': { stdout: stashList } });
+
+		assert.strictEqual(await findStashRef(runGit, label), 'stash@{1}');
+		assert.strictEqual(await findStashRef(runGit, 'missing'), undefined);
+	});
+
+	test('reapplyStash reports a dropped stash as missing', async () => {
+		const { runGit, commands } = createRunGit({});
+
+		assert.deepStrictEqual(await reapplyStash(runGit, label), { status: 'missing' });
+		assert.ok(!commands.some((c) => c.startsWith('stash pop')));
+	});
+
+	test('reapplyStash rethrows failures that left no conflicts', async () => {
+		const { runGit } = createRunGit({
+			'stash list --format=%gd%x00%gs': { stdout: stashList },
+			'stash pop stash@{1}': new Error('notes.txt already exists, no checkout'),
+		});
+
+		await assert.rejects(reapplyStash(runGit, label), /already exists/);
+	});
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import {
+	createSweepReportRecorder,
+	describeSweepMode,
+	formatReportAsJson,
+	formatReportAsMarkdown,
+	type SweepReport,
+} from '../../core/sweep-report';
+
+function createClock(...isoTimes: string[]): () => Date {
+	let i = 0;
+	return () => new Date(isoTimes[Math.min(i++, isoTimes.length - 1)]);
+}
+
+suite('sweep report', () => {
+	test('describes sweep modes', () => {
+		assert.strictEqual(describeSweepMode({ dryRun: true, forceDelete: true }), 'dry-run');
+		assert.strictEqual(describeSweepMode({ dryRun: false, forceDelete: false }), 'delete (-d)');
+		assert.strictEqual(describeSweepMode({ dryRun: false, forceDelete: true }), 'delete (-D)');
+	});
+
+	test('records candidates, selection and results per repository', () => {
+		const recorder = createSweepReportRecorder(
+			'all-repositories',
+			'delete (-d)',
+			createClock('2024-05-01T10:00:00.000Z', '2024-05-01T10:01:00.000Z')
+		);
+		recorder.addCandidates('/web', [
+			{ branch: 'a', reason: 'upstream gone' },
+			{ branch: 'b', reason: 'merged into main' },
+			{ branch: 'c', reason: 'upstream gone' },
+			{ branch: 'd', reason: 'upstream gone' },
+		]);
+		recorder.addCandidates('/api', []);
+		recorder.markSelected('/web', ['a', 'b', 'c']);
+		recorder.recordResult('/web', {
+			deleted: ['a'],
+			failed: [{ branch: 'b', error: 'not fully merged', category: 'not-fully-merged' }],
+		});
+
+		assert.deepStrictEqual(recorder.finish(), {
+			kind: 'all-repositories',
+			mode: 'delete (-d)',
+			startedAt: '2024-05-01T10:00:00.000Z',
+			finishedAt: '2024-05-01T10:01:00.000Z',
+			repositories: [
+				{
+					repository: '/web',
+					branches: [
+						{ branch: 'a', reason: 'upstream gone', selected: true, result: 'deleted' },
+						{ branch: 'b', reason: 'merged into main', selected: true, result: 'failed', error: 'not fully merged' },
+						{ branch: 'c', reason: 'upstream gone', selected: true, result: 'kept' },
+						{ branch: 'd', reason: 'upstream gone', selected: false },
+					],
+				},
+				{ repository: '/api', branches: [] },
+			],
+		});
+	});
+
+	test('marks selected branches as "would delete" in a dry run', () => {
+		const recorder = createSweepReportRecorder('sweep', 'dry-run');
+		recorder.addCandidates('/repo', [
+			{ branch: 'a', reason: 'upstream gone' },
+			{ branch: 'b', reason: 'upstream gone' },
+		]);
+		recorder.markSelected('/repo', ['b']);
+		recorder.markDryRun('/repo');
+
+		assert.deepStrictEqual(
+			recorder.finish().repositories[0].branches.map((b) => b.result),
+			[undefined, 'would delete']
+		);
+	});
+
+	const report: SweepReport = {
+		kind: 'stale',
+		mode: 'delete (-D)',
+		startedAt: '2024-05-01T10:00:00.000Z',
+		finishedAt: '2024-05-01T10:01:00.000Z',
+		repositories: [
+			{
+				repository: '/repo',
+				branches: [
+					{ branch: 'old|pipe', reason: 'no commits in 120 days', selected: true, result: 'deleted' },
+					{ branch: 'wip', reason: 'no commits in 95 days', selected: true, result: 'failed', error: 'error: line one\nline two' },
+					{ branch: 'keep', reason: 'no commits in 91 days', selected: false },
+				],
+			},
+		],
+	};
+
+	test('formats a report as Markdown tables', () => {
+		assert.strictEqual(
+			formatReportAsMarkdown(report),
+			[
+				'# Git Sweep report: Sweep stale branches',
+				'',
+				'- Mode: delete (-D)',
+				'- Started: 2024-05-01T10:00:00.000Z',
+				'- Finished: 2024-05-01T10:01:00.000Z',
+				'',
+				'## /repo',
+				'',
+				'3 candidate(s), 2 selected, 1 deleted, 1 failed.',
+				'',
+				'| Branch | Reason | Selected | Result |',
+				'| --- | --- | --- | --- |',
+				'| old\\|pipe | no commits in 120 days | yes | deleted |',
+				'| wip | no commits in 95 days | yes | failed: error: line one line two |',
+				'| keep | no commits in 91 days | no |  |',
+				'',
+			].join('\n')
+		);
+	});
+
+	test('formats a report as JSON that round-trips', () => {
+		const json = formatReportAsJson(report);
+
+		assert.ok(json.endsWith('}\n'));
+		assert.deepStrictEqual(JSON.parse(json), report);
+	});
+});
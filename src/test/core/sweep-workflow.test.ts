@@ -1,11 +1,55 @@
 import * as assert from 'assert';
-import { runSweepWorkflow, type QuickPickItemLike, type SweepWorkflowDeps } from '../../core/sweep-workflow';
+import * as path from 'path';
+import { BRANCH_DETAILS_FORMAT } from '../../core/branch-details';
+import { BRANCH_REFS_FORMAT } from '../../core/branch-list';
+import type { DeletionJournalEntry } from '../../core/deletion-journal';
+import {
+	runSweepWorkflow,
+	type QuickPickItemButtonLike,
+	type QuickPickItemLike,
+	type SweepWorkflowDeps,
+} from '../../core/sweep-workflow';
+import { GitTimeoutError, runGitCommand } from '../../core/git-command';
 import type { SweepMode } from '../../core/sweep-logic';
+import type { SweepReport } from '../../core/sweep-report';
+import { listBatchRefs } from './workflow-harness';
+
+const BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads`;
+/** Lets notification actions, which workflows do not await, run to completion. */
+function flushNotificationActions(): Promise<void> {
+	return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Lists which of the branches a, b and c survived a batch delete. */
+const BATCH_REFS = 'for-each-ref --format=%(refname) refs/heads/a refs/heads/b refs/heads/c';
+
+type LocalRefOptions = { upstream?: string; track?: string; current?: boolean; worktree?: string };
+
+/** A local branch line of `git for-each-ref` output in BRANCH_REFS_FORMAT. */
+function localRef(name: string, { upstream = '', track = '', current = false, worktree = '' }: LocalRefOptions = {}): string {
+	return [`refs/heads/${name}`, current ? '*' : ' ', '', upstream, track, worktree].join('\0');
+}
+
+/** A local branch whose upstream origin/<name> was deleted. */
+function goneRef(name: string): string {
+	return localRef(name, { upstream: `origin/${name}`, track: 'gone' });
+}
 
 type HarnessOptions = {
 	workspaceRoot?: string;
 	quickPickSelection?: readonly QuickPickItemLike[] | undefined;
+	/** Answers for quick picks shown after the branch selection, in order. */
+	followUpSelections?: Array<QuickPickItemLike | undefined>;
+	config?: Record<string, unknown>;
 	git?: Record<string, { stdout?: string; stderr?: string } | Error>;
+	/** Checked before `git`, keyed by "<cwd>: <git args>" for commands run outside the workspace root. */
+	gitIn?: Record<string, { stdout?: string; stderr?: string } | Error>;
+	/** Action clicked on error notifications that offer actions. */
+	errorAction?: string;
+	/** Presses the progress notification's cancel button when this progress message is reported. */
+	cancelOnProgress?: string;
+	/** Provides ui.showTextDocument, which enables the log/diff item buttons. */
+	textDocuments?: boolean;
 };
 
 type Harness = {
@@ -15,7 +59,14 @@ type Harness = {
 	errorMessages: string[];
 	commands: string[];
 	progressTitles: string[];
-	quickPickRequests: Array<{ items: QuickPickItemLike[]; title: string }>;
+	progressMessages: string[];
+	quickPickRequests: Array<{
+		items: QuickPickItemLike[];
+		title: string;
+		onDidTriggerItemButton?: (item: QuickPickItemLike, button: QuickPickItemButtonLike) => void;
+	}>;
+	reports: SweepReport[];
+	documents: Array<{ content: string; language: string }>;
 };
 
 function createHarness(options: HarnessOptions = {}): Harness {
@@ -24,18 +75,24 @@ function createHarness(options: HarnessOptions = {}): Harness {
 	const errorMessages: string[] = [];
 	const commands: string[] = [];
 	const progressTitles: string[] = [];
-	const quickPickRequests: Array<{ items: QuickPickItemLike[]; title: string }> = [];
+	const progressMessages: string[] = [];
+	const quickPickRequests: Harness['quickPickRequests'] = [];
+	const reports: SweepReport[] = [];
+	const documents: Harness['documents'] = [];
 
 	const deps: SweepWorkflowDeps = {
 		getWorkspaceRoot: () => options.workspaceRoot,
+		config: {
+			get: <T>(section: string, defaultValue: T) => (options.config?.[section] as T | undefined) ?? defaultValue,
+		},
 		output: {
 			show: () => undefined,
 			appendLine: (line) => outputLines.push(line),
 		},
-		runGitCommand: async (args) => {
+		runGitCommand: async (args, cwd) => {
 			const key = args.join(' ');
 			commands.push(key);
-			const entry = options.git?.[key];
+			const entry = options.gitIn?.[`${cwd}: ${key}`] ?? options.git?.[key] ?? listBatchRefs(args);
 			if (entry instanceof Error) {
 				throw entry;
 			}
@@ -47,22 +104,55 @@ function createHarness(options: HarnessOptions = {}): Harness {
 		ui: {
 			withProgress: async (progress, task) => {
 				progressTitles.push(progress.title);
-				return task();
+				const controller = new AbortController();
+				return task(
+					{
+						report: ({ message }) => {
+							progressMessages.push(message ?? '');
+							if (message === options.cancelOnProgress) {
+								controller.abort();
+							}
+						},
+					},
+					controller.signal
+				);
 			},
 			showQuickPick: async (items, config) => {
-				quickPickRequests.push({ items, title: config.title });
-				return options.quickPickSelection;
+				quickPickRequests.push({
+					items,
+					title: config.title,
+					onDidTriggerItemButton: config.onDidTriggerItemButton,
+				});
+				return quickPickRequests.length === 1
+					? options.quickPickSelection
+					: options.followUpSelections?.[quickPickRequests.length - 2];
 			},
 			showInformationMessage: (message) => {
 				infoMessages.push(message);
 			},
-			showErrorMessage: (message) => {
+			showErrorMessage: async (message, ...actions) => {
 				errorMessages.push(message);
+				return actions.find((action) => action === options.errorAction);
 			},
+			...(options.textDocuments
+				? { showTextDocument: (content: string, language: string) => void documents.push({ content, language }) }
+				: {}),
 		},
+		recordReport: (report) => reports.push(report),
 	};
 
-	return { deps, outputLines, infoMessages, errorMessages, commands, progressTitles, quickPickRequests };
+	return {
+		deps,
+		outputLines,
+		infoMessages,
+		errorMessages,
+		commands,
+		progressTitles,
+		progressMessages,
+		quickPickRequests,
+		reports,
+		documents,
+	};
 }
 
 suite('sweep workflow', () => {
@@ -84,14 +174,14 @@ suite('sweep workflow', () => {
 			workspaceRoot: '/repo',
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': { stdout: '  main 123 [origin/main] main' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main' }) },
 			},
 		});
 
 		await runSweepWorkflow(safeMode, h.deps);
 
 		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: No stale branches found.']);
-		assert.deepStrictEqual(h.commands, ['fetch -p', 'branch -vv']);
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch -p', BRANCH_REFS]);
 		assert.ok(h.outputLines.includes('No stale tracked branches found.'));
 		assert.strictEqual(h.quickPickRequests.length, 0);
 		assert.strictEqual(h.progressTitles[0], 'Git Sweep Pro: Fetching and pruning remote references...');
@@ -104,7 +194,7 @@ suite('sweep workflow', () => {
 			quickPickSelection: undefined,
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': { stdout: '  stale/one 123 [origin/stale/one: gone] msg' },
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
 			},
 		});
 
@@ -121,7 +211,7 @@ suite('sweep workflow', () => {
 			quickPickSelection: [],
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': { stdout: '  stale/one 123 [origin/stale/one: gone] msg' },
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
 			},
 		});
 
@@ -136,10 +226,10 @@ suite('sweep workflow', () => {
 			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': {
+				[BRANCH_REFS]: {
 					stdout: [
-						'  stale/one 123 [origin/stale/one: gone] msg',
-						'  stale/two 456 [origin/stale/two: gone] msg',
+						goneRef('stale/one'),
+						goneRef('stale/two'),
 					].join('\n'),
 				},
 			},
@@ -148,7 +238,13 @@ suite('sweep workflow', () => {
 		await runSweepWorkflow(dryMode, h.deps);
 
 		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro (dry run): 2 branch(es) would be deleted.']);
-		assert.deepStrictEqual(h.commands, ['fetch -p', 'branch -vv']);
+		assert.deepStrictEqual(h.commands, [
+			'remote',
+			'fetch -p',
+			BRANCH_REFS,
+			'worktree list --porcelain',
+			`for-each-ref ${BRANCH_DETAILS_FORMAT} refs/heads`,
+		]);
 		assert.ok(h.outputLines.includes('[DRY RUN] Selected branches:'));
 		assert.ok(h.outputLines.includes('- stale/one'));
 		assert.ok(h.outputLines.includes('- stale/two'));
@@ -161,10 +257,10 @@ suite('sweep workflow', () => {
 			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': {
+				[BRANCH_REFS]: {
 					stdout: [
-						'  stale/one 123 [origin/stale/one: gone] msg',
-						'  stale/two 456 [origin/stale/two: gone] msg',
+						goneRef('stale/one'),
+						goneRef('stale/two'),
 					].join('\n'),
 				},
 				'branch -d stale/one': { stdout: '' },
@@ -186,10 +282,10 @@ suite('sweep workflow', () => {
 			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': {
+				[BRANCH_REFS]: {
 					stdout: [
-						'  stale/one 123 [origin/stale/one: gone] msg',
-						'  stale/two 456 [origin/stale/two: gone] msg',
+						goneRef('stale/one'),
+						goneRef('stale/two'),
 					].join('\n'),
 				},
 				'branch -D stale/one': { stdout: '' },
@@ -205,6 +301,429 @@ suite('sweep workflow', () => {
 		assert.ok(h.outputLines.some((line) => line.includes('[delete-failed] stale/two: not fully merged')));
 	});
 
+	test('records a report with reasons, selection and per-branch results', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('stale/one'),
+						goneRef('stale/two'),
+						goneRef('stale/three'),
+					].join('\n'),
+				},
+				'branch -D stale/two': new Error('not fully merged'),
+			},
+		});
+
+		await runSweepWorkflow(forceMode, h.deps);
+
+		assert.strictEqual(h.reports.length, 1);
+		const [report] = h.reports;
+		assert.strictEqual(report.kind, 'sweep');
+		assert.strictEqual(report.mode, 'delete (-D)');
+		assert.deepStrictEqual(report.repositories, [
+			{
+				repository: '/repo',
+				branches: [
+					{ branch: 'stale/one', reason: 'upstream gone', selected: true, result: 'deleted' },
+					{ branch: 'stale/two', reason: 'upstream gone', selected: true, result: 'failed', error: 'not fully merged' },
+					{ branch: 'stale/three', reason: 'upstream gone', selected: false },
+				],
+			},
+		]);
+	});
+
+	test('deletes branches in one batch and reports progress', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('stale/one'),
+						goneRef('stale/two'),
+					].join('\n'),
+				},
+				'branch -d stale/one stale/two': {
+					stdout: 'Deleted branch stale/one (was 1234567).\nDeleted branch stale/two (was 89abcde).\n',
+				},
+				'for-each-ref --format=%(refname) refs/heads/stale/one refs/heads/stale/two': { stdout: '' },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.commands.filter((c) => c.startsWith('branch -d')), ['branch -d stale/one stale/two']);
+		assert.deepStrictEqual(h.progressTitles, [
+			'Git Sweep Pro: Fetching and pruning remote references...',
+			'Git Sweep Pro: Deleting 2 branch(es)...',
+		]);
+		assert.deepStrictEqual(h.progressMessages, ['Deleting 1-2/2']);
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Deleted 2 branch(es).']);
+	});
+
+	test('retries branches the batch did not delete one by one to report their error', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'a' }, { label: 'b' }, { label: 'c' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('a'),
+						goneRef('b'),
+						goneRef('c'),
+					].join('\n'),
+				},
+				'branch -d a b c': Object.assign(new Error('Command failed: git branch -d a b c'), {
+					stdout: 'Deleted branch a (was 1111111).\nDeleted branch c (was 3333333).\n',
+					stderr: "error: the branch 'b' is not fully merged.\n",
+				}),
+				[BATCH_REFS]: { stdout: 'refs/heads/b\n' },
+				'branch -d b': new Error("error: the branch 'b' is not fully merged."),
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.commands.filter((c) => c.startsWith('branch -d')), ['branch -d a b c', 'branch -d b']);
+		assert.ok(h.outputLines.includes("[delete-failed] b: error: the branch 'b' is not fully merged."));
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Deleted 2/3 branch(es). 1 not fully merged. See "Git Sweep" output for details.',
+		]);
+		assert.deepStrictEqual(
+			h.reports[0].repositories[0].branches.map((b) => b.result),
+			['deleted', 'failed', 'deleted']
+		);
+	});
+
+	test('reads the batch result from the refs, not from git output in another language', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'a' }, { label: 'b' }, { label: 'c' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('a'),
+						goneRef('b'),
+						goneRef('c'),
+					].join('\n'),
+				},
+				'branch -d a b c': {
+					stdout: 'Branch a entfernt (war 1111111).\nBranch b entfernt (war 2222222).\nBranch c entfernt (war 3333333).\n',
+				},
+				[BATCH_REFS]: { stdout: '' },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.ok(h.commands.includes(BATCH_REFS));
+		assert.deepStrictEqual(h.commands.filter((c) => c.startsWith('branch -d')), ['branch -d a b c']);
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Deleted 3 branch(es).']);
+	});
+
+	test('lets the user review unmerged branches and escalate selected ones to -D', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'a' }, { label: 'b' }, { label: 'c' }],
+			errorAction: 'Review unmerged branches',
+			followUpSelections: [{ label: 'b' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('a'),
+						goneRef('b'),
+						goneRef('c'),
+					].join('\n'),
+				},
+				'branch -d a b c': Object.assign(new Error('Command failed'), { stdout: 'Deleted branch a (was 1111111).\n' }),
+				[BATCH_REFS]: { stdout: 'refs/heads/b\nrefs/heads/c\n' },
+				'branch -d b': new Error("Command failed: git branch -d b\nerror: the branch 'b' is not fully merged.\nhint: ..."),
+				'branch -d c': new Error("Command failed: git branch -d c\nerror: the branch 'c' is not fully merged."),
+				'rev-list --count HEAD..refs/heads/b': { stdout: '3\n' },
+				'rev-list --count HEAD..refs/heads/c': new Error('fatal: bad revision'),
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		/* The sweep does not wait for the notification action */
+		assert.strictEqual(h.quickPickRequests.length, 1);
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Deleted 1/3 branch(es). 2 not fully merged. See "Git Sweep" output for details.',
+		]);
+		await flushNotificationActions();
+		const review = h.quickPickRequests[1];
+		assert.strictEqual(review.title, 'Git Sweep Pro: Force delete (-D) branches that were not fully merged');
+		assert.deepStrictEqual(review.items, [
+			{
+				label: 'b',
+				description: '3 commit(s) not merged into HEAD',
+				detail: "error: the branch 'b' is not fully merged.",
+				picked: false,
+			},
+			{
+				label: 'c',
+				description: 'not fully merged',
+				detail: "error: the branch 'c' is not fully merged.",
+				picked: false,
+			},
+		]);
+		assert.ok(h.commands.includes('branch -D b'));
+		assert.ok(!h.commands.includes('branch -D c'));
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Force deleted 1 branch(es).']);
+		assert.deepStrictEqual(
+			h.reports[0].repositories[0].branches.map((b) => b.result),
+			['deleted', 'failed', 'failed']
+		);
+		assert.strictEqual(h.reports[1].mode, 'delete (-D)');
+		assert.deepStrictEqual(
+			h.reports[1].repositories[0].branches.map((b) => [b.branch, b.result]),
+			[
+				['b', 'deleted'],
+				['c', undefined],
+			]
+		);
+	});
+
+	test('leaves unmerged branches alone when the review is dismissed', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'b' }],
+			errorAction: 'Review unmerged branches',
+			followUpSelections: [undefined],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('b') },
+				'branch -d b': new Error("error: the branch 'b' is not fully merged."),
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+		await flushNotificationActions();
+
+		assert.strictEqual(h.quickPickRequests.length, 2);
+		assert.strictEqual(h.reports.length, 1);
+		assert.ok(!h.commands.includes('branch -D b'));
+		assert.ok(h.outputLines.includes('No unmerged branches selected for force delete.'));
+	});
+
+	test('does not offer the unmerged review for other failures', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'a' }],
+			errorAction: 'Review unmerged branches',
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('a') },
+				'branch -d a': new Error("fatal: Unable to create '/repo/.git/refs/heads/a.lock': File exists."),
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, ['Git Sweep Pro: Deleted 0/1 branch(es). See "Git Sweep" output for details.']);
+		assert.ok(!h.commands.includes('branch -D a'));
+	});
+
+	test('offers the unmerged review when git would report the failure in another language', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'b' }],
+			errorAction: 'Review unmerged branches',
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('b') },
+			},
+		});
+		const harnessGit = h.deps.runGitCommand;
+		/* Real command runner over a git that answers in German unless the C locale is requested */
+		const deps: SweepWorkflowDeps = {
+			...h.deps,
+			runGitCommand: (args, cwd) =>
+				runGitCommand(args, cwd, h.deps.output, async (_file, gitArgs, options) => {
+					if (gitArgs.join(' ') === 'branch -d b') {
+						const stderr = options.env?.LC_ALL === 'C'
+							? "error: the branch 'b' is not fully merged.\n"
+							: "Fehler: Der Branch 'b' ist nicht vollständig zusammengeführt.\n";
+						throw Object.assign(new Error(`Command failed: git branch -d b\n${stderr}`), { code: 1, stderr });
+					}
+					return harnessGit(gitArgs, options.cwd);
+				}),
+		};
+
+		await runSweepWorkflow(safeMode, deps);
+		await flushNotificationActions();
+
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: Deleted 0/1 branch(es). 1 not fully merged. See "Git Sweep" output for details.',
+		]);
+		assert.strictEqual(h.quickPickRequests[1]?.title, 'Git Sweep Pro: Force delete (-D) branches that were not fully merged');
+	});
+
+	test('summarises branches kept when the -D confirmation in the review is turned down', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'b' }],
+			errorAction: 'Review unmerged branches',
+			followUpSelections: [{ label: 'b' }, { label: 'Skip' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('b') },
+				'branch -d b': new Error("error: the branch 'b' is not fully merged."),
+				'log --format=%h%x09%s refs/heads/b --not --remotes --': { stdout: 'abc\tlocal work\n' },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+		await flushNotificationActions();
+
+		assert.ok(!h.commands.includes('branch -D b'));
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Force deleted 0 branch(es). Kept 1 branch(es) with unpushed commits.']);
+		assert.deepStrictEqual(
+			h.reports[1].repositories[0].branches.map((b) => [b.branch, b.result]),
+			[['b', 'kept']]
+		);
+	});
+
+	test('stops deleting when cancelled and summarises what was left', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'a' }, { label: 'b' }, { label: 'c' }],
+			cancelOnProgress: 'Retrying 1/2: b',
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('a'),
+						goneRef('b'),
+						goneRef('c'),
+					].join('\n'),
+				},
+				'branch -d a b c': Object.assign(new Error('Command failed'), { stdout: 'Deleted branch a (was 1111111).\n' }),
+				[BATCH_REFS]: { stdout: 'refs/heads/b\nrefs/heads/c\n' },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.ok(h.commands.includes('branch -d b'));
+		assert.ok(!h.commands.includes('branch -d c'));
+		assert.ok(h.outputLines.includes('[cancelled] 1 branch(es) not deleted: c'));
+		assert.deepStrictEqual(h.infoMessages, [
+			'Git Sweep Pro: Cancelled after deleting 2/3 branch(es); 1 not deleted. See "Git Sweep" output for details.',
+		]);
+		assert.deepStrictEqual(
+			h.reports[0].repositories[0].branches.map((b) => b.result),
+			['deleted', 'deleted', 'cancelled']
+		);
+	});
+
+	test('treats a cancelled fetch as a clean stop', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			git: {
+				'fetch -p': Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }),
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, []);
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: Sweep cancelled. No branches were deleted.']);
+		assert.deepStrictEqual(h.commands, ['remote', 'fetch -p']);
+		assert.strictEqual(h.outputLines.at(-1), '--- Git Sweep session ended ---');
+	});
+
+	test('sweeps branches of the remotes that fetched when another remote fails', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [],
+			git: {
+				remote: { stdout: 'origin\nfork\n' },
+				'fetch --multiple --prune --jobs=2 origin fork': Object.assign(new Error('Command failed: git fetch'), {
+					stderr: "fatal: Could not resolve host\nerror: could not fetch 'fork' (exit code: 128)\n",
+				}),
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, []);
+		assert.ok(h.outputLines.includes('[fetch-failed] fork: Command failed: git fetch'));
+		assert.deepStrictEqual(h.quickPickRequests[0].items.map((item) => item.label), ['stale/one']);
+	});
+
+	test('offline mode skips the fetch and warns that results may be stale', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [],
+			git: {
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+			},
+		});
+
+		await runSweepWorkflow({ ...dryMode, offline: true }, h.deps);
+
+		assert.ok(!h.commands.includes('fetch -p'));
+		assert.deepStrictEqual(h.progressTitles, []);
+		assert.ok(h.outputLines.some((line) => line.startsWith('[offline] Skipped "git fetch -p"')));
+		assert.strictEqual(
+			h.quickPickRequests[0].title,
+			'Git Sweep Pro: Select branches to include in dry run (offline: not fetched, may be stale)'
+		);
+	});
+
+	test('offline mode never asks the server for the remote default branch', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { detectMergedBranches: true },
+			quickPickSelection: [],
+			git: {
+				remote: { stdout: 'origin\n' },
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+			},
+		});
+
+		await runSweepWorkflow({ ...dryMode, offline: true }, h.deps);
+
+		assert.ok(!h.commands.some((c) => c.startsWith('remote set-head')));
+		assert.ok(h.outputLines.includes('No remote default branch found; skipping merged-branch detection.'));
+	});
+
+	test('shows a dedicated message when the fetch times out', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			git: { 'fetch -p': new GitTimeoutError('git fetch -p', 60_000) },
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.errorMessages, [
+			'Git Sweep Pro: "git fetch -p" timed out after 60 s. Check that the remote is reachable or raise ' +
+				'"gitSweepPro.fetchTimeoutSeconds". To sweep from the last fetched state, use "Git Sweep Pro: Run Offline".',
+		]);
+	});
+
+	test('does not record a report when the fetch fails', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			git: { 'fetch -p': new Error('Could not resolve host') },
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		assert.deepStrictEqual(h.reports, []);
+	});
+
 	test('maps not-a-repository errors to friendly message', async () => {
 		const h = createHarness({
 			workspaceRoot: '/repo',
@@ -253,10 +772,10 @@ suite('sweep workflow', () => {
 			quickPickSelection: [{ label: 'stale/one' }],
 			git: {
 				'fetch -p': { stdout: '' },
-				'branch -vv': {
+				[BRANCH_REFS]: {
 					stdout: [
-						'  stale/one 123 [origin/stale/one: gone] msg',
-						'  stale/two 123 [origin/stale/two: gone] msg',
+						goneRef('stale/one'),
+						goneRef('stale/two'),
 					].join('\n'),
 				},
 			},
@@ -267,8 +786,309 @@ suite('sweep workflow', () => {
 		const quickPick = h.quickPickRequests[0];
 		assert.ok(quickPick);
 		assert.deepStrictEqual(quickPick.items, [
-			{ label: 'stale/one', picked: true },
-			{ label: 'stale/two', picked: true },
+			{ label: 'stale/one', description: 'upstream gone', picked: true },
+			{ label: 'stale/two', description: 'upstream gone', picked: true },
+		]);
+	});
+
+	test('shows the last commit and former upstream of each candidate', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [],
+			git: {
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+				[`for-each-ref ${BRANCH_DETAILS_FORMAT} refs/heads`]: {
+					stdout: ['stale/one', 'Fix login', 'Ada', '1000000000', 'origin/stale/one', 'gone'].join('\0'),
+				},
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		const detail = h.quickPickRequests[0]?.items[0]?.detail;
+		assert.ok(detail?.startsWith('Fix login · Ada · '), detail);
+		assert.ok(detail?.endsWith(' · was origin/stale/one'), detail);
+		assert.strictEqual(h.quickPickRequests[0]?.items[0]?.buttons, undefined);
+	});
+
+	test('opens the branch log and diff from the item buttons', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			textDocuments: true,
+			git: {
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/origin/HEAD' },
+				'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main' },
+				'log --no-color --max-count=50 --format=%h %ad %an%n    %s --date=short refs/heads/stale/one': {
+					stdout: 'abc123 2024-01-01 Ada\n    Fix login\n',
+				},
+				'diff --no-color --stat --patch origin/main...refs/heads/stale/one': { stdout: 'diff --git a/x b/x\n' },
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		const request = h.quickPickRequests[0];
+		const item = request?.items[0];
+		assert.ok(request?.onDidTriggerItemButton && item?.buttons);
+		assert.deepStrictEqual(
+			item.buttons.map((b) => b.iconId),
+			['history', 'diff']
+		);
+		request.onDidTriggerItemButton(item, item.buttons[0]);
+		request.onDidTriggerItemButton(item, item.buttons[1]);
+		await new Promise((resolve) => setImmediate(resolve));
+
+		assert.deepStrictEqual(h.documents, [
+			{ content: 'abc123 2024-01-01 Ada\n    Fix login\n', language: 'log' },
+			{ content: 'diff --git a/x b/x\n', language: 'diff' },
+		]);
+	});
+
+	test('records deleted branches in the journal with their tip and upstream', async () => {
+		const recorded: Array<{ repoRoot: string; entries: readonly DeletionJournalEntry[] }> = [];
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('stale/one'),
+						goneRef('stale/two'),
+					].join('\n'),
+				},
+				'for-each-ref --format=%(refname:lstrip=2)%00%(objectname)%00%(upstream:remotename)%00%(upstream:remoteref) refs/heads': {
+					stdout: 'stale/one\0abc123\0origin\0refs/heads/stale/one\nstale/two\0def456\0origin\0refs/heads/stale/two\n',
+				},
+				'branch -D stale/two': new Error('boom'),
+				'rev-parse --git-common-dir': { stdout: '.git\n' },
+			},
+		});
+		const deps: SweepWorkflowDeps = {
+			...h.deps,
+			journal: {
+				list: () => [],
+				record: async (repoRoot, entries) => {
+					recorded.push({ repoRoot, entries });
+				},
+				remove: async () => undefined,
+			},
+		};
+
+		await runSweepWorkflow(forceMode, deps);
+
+		assert.strictEqual(recorded.length, 1);
+		assert.strictEqual(recorded[0].repoRoot, path.resolve('/repo/.git'));
+		assert.deepStrictEqual(
+			recorded[0].entries.map(({ deletedAt: _deletedAt, ...rest }) => rest),
+			[{ branch: 'stale/one', sha: 'abc123', upstreamRemote: 'origin', upstreamMerge: 'refs/heads/stale/one', mode: 'force' }]
+		);
+		assert.ok(h.outputLines.includes('Recorded 1 deleted branch(es) in the restore journal.'));
+	});
+
+	test('offers squash-merged branches with their detection reason when enabled', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { detectMergedBranches: true },
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/origin/HEAD' },
+				'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main' },
+				'for-each-ref --format=%(refname:lstrip=2)%00%(objectname)%00%(HEAD) refs/heads': {
+					stdout: 'main\0aaa\0*\nstale/one\0bbb\0\nfeature/squashed\0ccc\0\n',
+				},
+				'merge-base origin/main ccc': { stdout: 'base\n' },
+				'cherry origin/main ccc base': { stdout: '+ c1\n+ c2\n' },
+				'commit-tree ccc^{tree} -p base -m git-sweep-pro squash check': { stdout: 'tmp\n' },
+				'cherry origin/main tmp': { stdout: '- tmp\n' },
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		assert.deepStrictEqual(h.quickPickRequests[0]?.items, [
+			{ label: 'stale/one', description: 'upstream gone', picked: true },
+			{ label: 'feature/squashed', description: 'squash-merged into main', picked: true },
+		]);
+		assert.ok(!h.commands.includes('merge-base origin/main bbb'), 'gone branches are not inspected twice');
+	});
+
+	test('skips merged-branch detection when no remote default branch exists', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { detectMergedBranches: true },
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: localRef('main', { upstream: 'origin/main' }) },
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		assert.ok(h.outputLines.includes('No remote default branch found; skipping merged-branch detection.'));
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: No stale branches found.']);
+	});
+
+	test('filters protected branches out of the candidates and logs them', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { protectedBranches: ['main', 'release/**'] },
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('main'),
+						goneRef('release/2026/10'),
+						goneRef('stale/one'),
+					].join('\n'),
+				},
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps);
+
+		assert.deepStrictEqual(
+			h.quickPickRequests[0]?.items.map((i) => i.label),
+			['stale/one']
+		);
+		assert.ok(h.outputLines.includes('[protected] main: skipped (matches "main")'));
+		assert.ok(h.outputLines.includes('[protected] release/2026/10: skipped (matches "release/**")'));
+	});
+
+	test('reports no stale branches when every candidate is protected', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('develop') },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.infoMessages, ['Git Sweep Pro: No stale branches found.']);
+		assert.strictEqual(h.quickPickRequests.length, 0);
+		assert.ok(h.outputLines.includes('[protected] develop: skipped (matches "develop")'));
+	});
+
+	test('stale detection lists old branches without pre-selecting them', async () => {
+		const oldSeconds = Math.floor(Date.now() / 1000) - 200 * 24 * 60 * 60;
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			config: { staleAfterDays: 30 },
+			git: {
+				'fetch -p': { stdout: '' },
+				'for-each-ref --format=%(refname) refs/remotes/*/HEAD': { stdout: 'refs/remotes/origin/HEAD' },
+				'rev-parse --abbrev-ref refs/remotes/origin/HEAD': { stdout: 'origin/main' },
+				'for-each-ref --format=%(refname:lstrip=2)%00%(committerdate:unix)%00%(authorname)%00%(HEAD) refs/heads': {
+					stdout: `main\0${oldSeconds}\0Ann\0*\nexperiment\0${oldSeconds}\0Ann\0\nrelease/1.0\0${oldSeconds}\0Ann\0\n`,
+				},
+				'rev-list --left-right --count origin/main...experiment': { stdout: '12\t3\n' },
+			},
+		});
+
+		await runSweepWorkflow(dryMode, h.deps, 'stale');
+
+		assert.deepStrictEqual(h.quickPickRequests[0]?.items, [
+			{ label: 'experiment', description: 'stale · 200 days old · Ann · 3 ahead, 12 behind main', picked: false },
+		]);
+		assert.ok(h.outputLines.includes('Detection: branches with no commits in 30 days'));
+		assert.ok(h.outputLines.includes('[protected] release/1.0: skipped (matches "release/**")'));
+		assert.ok(!h.commands.includes(BRANCH_REFS));
+	});
+
+	test('force delete keeps branches with unpushed commits when the user skips them', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
+			followUpSelections: [{ label: 'Skip' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						goneRef('stale/one'),
+						goneRef('stale/two'),
+					].join('\n'),
+				},
+				'log --format=%h%x09%s refs/heads/stale/two --not --remotes --': { stdout: 'abc\tlocal work\n' },
+			},
+		});
+
+		await runSweepWorkflow(forceMode, h.deps);
+
+		assert.ok(h.commands.includes('branch -D stale/one'));
+		assert.ok(!h.commands.includes('branch -D stale/two'));
+		assert.strictEqual(h.quickPickRequests[1]?.title, 'Git Sweep Pro: "stale/two" has 1 commit(s) that exist on no remote');
+		assert.deepStrictEqual(h.infoMessages, [
+			'Git Sweep Pro: Deleted 1 branch(es). Kept 1 branch(es) with unpushed commits.',
+		]);
+	});
+
+	test('safe delete does not check for unpushed commits', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: { stdout: goneRef('stale/one') },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.ok(!h.commands.some((c) => c.startsWith('log ')));
+		assert.strictEqual(h.quickPickRequests.length, 1);
+	});
+
+	test('annotates branches checked out in other worktrees and removes clean ones before deleting', async () => {
+		const h = createHarness({
+			workspaceRoot: '/repo',
+			quickPickSelection: [{ label: 'stale/one' }, { label: 'stale/two' }],
+			followUpSelections: [{ label: 'Remove worktree and delete branch' }],
+			git: {
+				'fetch -p': { stdout: '' },
+				[BRANCH_REFS]: {
+					stdout: [
+						localRef('stale/one', { upstream: 'origin/stale/one', track: 'gone', worktree: '/work/one' }),
+						localRef('stale/two', { upstream: 'origin/stale/two', track: 'gone', worktree: '/work/two' }),
+					].join('\n'),
+				},
+				'worktree list --porcelain': {
+					stdout: [
+						'worktree /repo\nHEAD 000\nbranch refs/heads/main',
+						'worktree /work/one\nHEAD 123\nbranch refs/heads/stale/one',
+						'worktree /work/two\nHEAD 456\nbranch refs/heads/stale/two',
+					].join('\n\n'),
+				},
+				'rev-parse --show-toplevel': { stdout: '/repo\n' },
+				'status --porcelain': { stdout: '' },
+			},
+			gitIn: {
+				'/work/two: status --porcelain': { stdout: ' M file.ts\n' },
+			},
+		});
+
+		await runSweepWorkflow(safeMode, h.deps);
+
+		assert.deepStrictEqual(h.quickPickRequests[0].items, [
+			{ label: 'stale/one', description: 'upstream gone · checked out in /work/one', picked: false },
+			{ label: 'stale/two', description: 'upstream gone · checked out in /work/two', picked: false },
+		]);
+		assert.strictEqual(h.commands.filter((c) => c === 'status --porcelain').length, 2);
+		assert.strictEqual(h.quickPickRequests.length, 2);
+		assert.ok(h.commands.includes('worktree remove /work/one'));
+		assert.ok(h.commands.includes('branch -d stale/one'));
+		assert.ok(!h.commands.includes('worktree remove /work/two'));
+		assert.ok(!h.commands.includes('branch -d stale/two'));
+		assert.ok(
+			h.outputLines.includes(
+				'[worktree-refused] stale/two: checked out in worktree /work/two, which has uncommitted changes; commit or stash them first'
+			)
+		);
+		assert.deepStrictEqual(h.infoMessages, [
+			'Git Sweep Pro: Deleted 1 branch(es). Kept 1 branch(es) checked out in other worktrees.',
 		]);
 	});
 });
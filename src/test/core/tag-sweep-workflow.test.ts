@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import { parseRemoteTags, runTagSweepWorkflow } from '../../core/tag-sweep-workflow';
+import { createWorkflowHarness, type GitEntry } from './workflow-harness';
+
+const tagGit: Record<string, GitEntry> = {
+	remote: { stdout: 'origin\n' },
+	'ls-remote --tags origin': {
+		stdout: ['aaa\trefs/tags/v1.0.0', 'bbb\trefs/tags/rc/2.0-final', 'ccc\trefs/tags/rc/2.0-final^{}', ''].join('\n'),
+	},
+	'for-each-ref --format=%(refname) refs/tags': {
+		stdout: [
+			'refs/tags/rc/2.0-final',
+			'refs/tags/rc/2.0-rc1',
+			'refs/tags/rc/2.0-rc2',
+			'refs/tags/v1.0.0',
+			'refs/tags/v1.1.0-rc1',
+			'',
+		].join('\n'),
+	},
+};
+
+/** Lists which of the rc tags survived a batch `git tag -d`. */
+const RC_REFS = 'for-each-ref --format=%(refname) refs/tags/rc/2.0-rc1 refs/tags/rc/2.0-rc2';
+
+suite('tag-sweep-workflow', () => {
+	test('parseRemoteTags reads tag names and drops peeled entries', () => {
+		const tags = parseRemoteTags(
+			['aaa\trefs/tags/v1.0.0', 'bbb\trefs/tags/v1.0.0^{}', 'ccc\trefs/heads/main', 'ddd\trefs/tags/a/b', ''].join('\n')
+		);
+
+		assert.deepStrictEqual([...tags], ['v1.0.0', 'a/b']);
+	});
+
+	test('offers local tags missing on the remote and deletes the selection', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				...tagGit,
+				[RC_REFS]: { stdout: 'refs/tags/rc/2.0-rc2\n' },
+				'tag -d rc/2.0-rc2': new Error("error: tag 'rc/2.0-rc2' not found."),
+			},
+			quickPickSelection: (items) => items,
+		});
+
+		await runTagSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(harness.quickPickRequests[0].items, [
+			{ label: 'rc/2.0-rc1', description: 'not on origin', picked: false },
+			{ label: 'rc/2.0-rc2', description: 'not on origin', picked: false },
+		]);
+		assert.ok(harness.outputLines.includes('[protected] v1.1.0-rc1: skipped (matches "v*")'));
+		assert.deepStrictEqual(
+			harness.commands.filter((c) => c.startsWith('tag -d')),
+			['tag -d rc/2.0-rc1 rc/2.0-rc2', 'tag -d rc/2.0-rc2']
+		);
+		assert.ok(!harness.commands.some((c) => c.startsWith('push')));
+		assert.deepStrictEqual(harness.errorMessages, [
+			'Git Sweep Pro: Deleted 1/2 tag(s). See "Git Sweep" output for details.',
+		]);
+		assert.deepStrictEqual(
+			harness.reports[0]?.repositories[0]?.branches.map((b) => [b.branch, b.result]),
+			[
+				['rc/2.0-rc1', 'deleted'],
+				['rc/2.0-rc2', 'failed'],
+			]
+		);
+		assert.strictEqual(harness.reports[0]?.kind, 'tags');
+	});
+
+	test('dry run lists the selection without deleting', async () => {
+		const harness = createWorkflowHarness({
+			git: tagGit,
+			config: { protectedTags: [] },
+			quickPickSelection: (items) => items.filter((item) => item.label !== 'rc/2.0-rc1'),
+		});
+
+		await runTagSweepWorkflow({ dryRun: true }, harness.deps);
+
+		assert.deepStrictEqual(
+			harness.quickPickRequests[0].items.map((item) => item.label),
+			['rc/2.0-rc1', 'rc/2.0-rc2', 'v1.1.0-rc1']
+		);
+		assert.ok(!harness.commands.some((c) => c.startsWith('tag -d')));
+		assert.ok(harness.outputLines.includes('- v1.1.0-rc1'));
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro (dry run): 2 tag(s) would be deleted.']);
+	});
+
+	test('only offers tags that exist on none of the remotes', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				remote: { stdout: 'origin\nupstream\n' },
+				'ls-remote --tags origin': { stdout: 'aaa\trefs/tags/on-origin\n' },
+				'ls-remote --tags upstream': { stdout: 'bbb\trefs/tags/on-upstream\n' },
+				'for-each-ref --format=%(refname) refs/tags': {
+					stdout: 'refs/tags/local-only\nrefs/tags/on-origin\nrefs/tags/on-upstream\n',
+				},
+			},
+		});
+
+		await runTagSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(harness.quickPickRequests[0].items, [
+			{ label: 'local-only', description: 'not on any remote', picked: false },
+		]);
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro: No tags selected.']);
+	});
+
+	test('does not offer tags when a remote cannot be listed', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				remote: { stdout: 'origin\nupstream\n' },
+				'ls-remote --tags origin': { stdout: '' },
+				'ls-remote --tags upstream': new Error("fatal: unable to access 'https://example.com/': Could not resolve host: example.com"),
+				'for-each-ref --format=%(refname) refs/tags': { stdout: 'refs/tags/on-upstream\n' },
+			},
+		});
+
+		await runTagSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.strictEqual(harness.quickPickRequests.length, 0);
+		assert.strictEqual(harness.errorMessages.length, 1);
+	});
+
+	test('stops when no remote is configured', async () => {
+		const harness = createWorkflowHarness();
+
+		await runTagSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.deepStrictEqual(harness.errorMessages, ['Git Sweep Pro: No remote configured to compare tags with.']);
+		assert.ok(!harness.commands.some((c) => c.startsWith('ls-remote')));
+	});
+
+	test('stops deleting when cancelled', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				...tagGit,
+				[RC_REFS]: { stdout: 'refs/tags/rc/2.0-rc1\nrefs/tags/rc/2.0-rc2\n' },
+			},
+			quickPickSelection: (items) => items,
+			/* The running `git tag -d` finishes; the next tag is not attempted */
+			cancelOnProgress: 'Retrying 1/2: rc/2.0-rc1',
+		});
+
+		await runTagSweepWorkflow({ dryRun: false }, harness.deps);
+
+		assert.ok(harness.commands.includes('tag -d rc/2.0-rc1'));
+		assert.ok(!harness.commands.includes('tag -d rc/2.0-rc2'));
+		assert.ok(harness.cancellableCommands.includes('ls-remote --tags origin'));
+		assert.ok(!harness.cancellableCommands.some((c) => c.startsWith('tag -d')));
+		assert.deepStrictEqual(harness.infoMessages, [
+			'Git Sweep Pro: Cancelled after deleting 1/2 tag(s); 1 not deleted.',
+		]);
+	});
+});
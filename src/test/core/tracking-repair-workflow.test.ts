@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import { BRANCH_REFS_FORMAT, type BranchRef } from '../../core/branch-list';
+import { findTrackingRepairs, runRepairTrackingWorkflow } from '../../core/tracking-repair-workflow';
+import { createWorkflowHarness, type GitEntry } from './workflow-harness';
+
+const ALL_BRANCH_REFS = `for-each-ref ${BRANCH_REFS_FORMAT} refs/heads refs/remotes`;
+
+type LocalRefOptions = { upstream?: string; track?: string };
+
+/** A local branch line of `git for-each-ref` output in BRANCH_REFS_FORMAT. */
+function localRef(name: string, { upstream = '', track = '' }: LocalRefOptions = {}): string {
+	return [`refs/heads/${name}`, ' ', '', upstream, track, ''].join('\0');
+}
+
+function remoteRef(name: string): string {
+	return [`refs/remotes/${name}`, ' ', '', '', '', ''].join('\0');
+}
+
+function branchRef(name: string, fields: Partial<BranchRef> = {}): BranchRef {
+	return { name, isRemote: false, isCurrent: false, upstreamGone: false, ...fields };
+}
+
+const repairGit: Record<string, GitEntry> = {
+	remote: { stdout: 'origin\nupstream\n' },
+	[ALL_BRANCH_REFS]: {
+		stdout: [
+			localRef('feature/unpushed'),
+			localRef('feature/no-upstream'),
+			localRef('feature/moved', { upstream: 'old/feature/moved', track: 'gone' }),
+			localRef('feature/tracked', { upstream: 'origin/feature/tracked' }),
+			remoteRef('origin/feature/no-upstream'),
+			remoteRef('upstream/feature/moved'),
+			remoteRef('origin/feature/tracked'),
+			'',
+		].join('\n'),
+	},
+};
+
+suite('tracking-repair-workflow', () => {
+	test('findTrackingRepairs suggests a same-named remote branch for branches without upstream', () => {
+		const repairs = findTrackingRepairs(
+			[
+				branchRef('feature/x'),
+				branchRef('local-only'),
+				branchRef('origin/feature/x', { isRemote: true }),
+				branchRef('fork/feature/x', { isRemote: true }),
+			],
+			['fork', 'origin']
+		);
+
+		assert.deepStrictEqual(repairs, [
+			{ branch: 'feature/x', upstream: 'origin/feature/x', reason: 'no-upstream', previousUpstream: undefined },
+		]);
+	});
+
+	test('findTrackingRepairs prefers the preferred remote', () => {
+		const repairs = findTrackingRepairs(
+			[
+				branchRef('feature/x'),
+				branchRef('origin/feature/x', { isRemote: true }),
+				branchRef('fork/feature/x', { isRemote: true }),
+			],
+			['fork', 'origin'],
+			'fork'
+		);
+
+		assert.strictEqual(repairs[0]?.upstream, 'fork/feature/x');
+	});
+
+	test('findTrackingRepairs moves a gone upstream to another remote only', () => {
+		const repairs = findTrackingRepairs(
+			[
+				branchRef('moved', { upstream: 'origin/moved', upstreamGone: true }),
+				branchRef('deleted', { upstream: 'origin/deleted', upstreamGone: true }),
+				branchRef('tracked', { upstream: 'origin/tracked' }),
+				branchRef('fork/moved', { isRemote: true }),
+				branchRef('fork/tracked', { isRemote: true }),
+			],
+			['fork', 'origin']
+		);
+
+		assert.deepStrictEqual(repairs, [
+			{ branch: 'moved', upstream: 'fork/moved', reason: 'upstream-gone', previousUpstream: 'origin/moved' },
+		]);
+	});
+
+	test('sets the upstream of the selected branches', async () => {
+		const harness = createWorkflowHarness({ git: repairGit, quickPickSelection: (items) => items });
+
+		await runRepairTrackingWorkflow(harness.deps);
+
+		assert.deepStrictEqual(harness.quickPickRequests[0].items, [
+			{ label: 'feature/no-upstream', description: 'no upstream → origin/feature/no-upstream', picked: true },
+			{ label: 'feature/moved', description: 'old/feature/moved is gone → upstream/feature/moved', picked: true },
+		]);
+		assert.ok(harness.commands.includes('fetch --multiple --prune --jobs=2 origin upstream'));
+		assert.deepStrictEqual(
+			harness.commands.filter((c) => c.startsWith('branch')),
+			[
+				'branch --set-upstream-to=origin/feature/no-upstream feature/no-upstream',
+				'branch --set-upstream-to=upstream/feature/moved feature/moved',
+			]
+		);
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro: Set the upstream of 2 branch(es).']);
+	});
+
+	test('leaves unselected branches alone and reports failures', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				...repairGit,
+				'branch --set-upstream-to=upstream/feature/moved feature/moved': new Error(
+					"fatal: the requested upstream branch 'upstream/feature/moved' does not exist"
+				),
+			},
+			quickPickSelection: (items) => items.filter((item) => item.label === 'feature/moved'),
+		});
+
+		await runRepairTrackingWorkflow(harness.deps);
+
+		assert.ok(!harness.commands.some((c) => c.includes('feature/no-upstream feature/no-upstream')));
+		assert.ok(harness.outputLines.some((line) => line.startsWith('[repair-failed] feature/moved:')));
+		assert.deepStrictEqual(harness.errorMessages, [
+			'Git Sweep Pro: Set the upstream of 0/1 branch(es). See "Git Sweep" output for details.',
+		]);
+	});
+
+	test('reports when nothing needs repair', async () => {
+		const harness = createWorkflowHarness({
+			git: {
+				remote: { stdout: 'origin\n' },
+				[ALL_BRANCH_REFS]: {
+					stdout: [localRef('main', { upstream: 'origin/main' }), remoteRef('origin/main')].join('\n'),
+				},
+			},
+		});
+
+		await runRepairTrackingWorkflow(harness.deps);
+
+		assert.strictEqual(harness.quickPickRequests.length, 0);
+		assert.deepStrictEqual(harness.infoMessages, ['Git Sweep Pro: Tracking of all local branches looks right.']);
+	});
+
+	test('fails fast when no workspace is open', async () => {
+		const harness = createWorkflowHarness({ workspaceRoot: undefined });
+
+		await runRepairTrackingWorkflow(harness.deps);
+
+		assert.deepStrictEqual(harness.errorMessages, ['Git Sweep Pro: No workspace folder is open.']);
+		assert.deepStrictEqual(harness.commands, []);
+	});
+});
@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import type { BranchTip } from '../../core/deletion-journal';
+import { confirmUnpushedBranches, findUnpushedCommits } from '../../core/unpushed-check';
+import { createWorkflowHarness, type WorkflowHarness, type WorkflowHarnessOptions } from './workflow-harness';
+
+type HarnessOptions = Omit<WorkflowHarnessOptions, 'quickPickSelection'> & {
+	/** Label chosen for each successive quick pick; undefined cancels. */
+	choices?: Array<string | undefined>;
+};
+
+/** The shared harness answering quick picks from `choices`, in order. */
+function createHarness({ choices = [], ...options }: HarnessOptions = {}): WorkflowHarness {
+	const remaining = [...choices];
+	return createWorkflowHarness({
+		...options,
+		quickPickSelection: (items) => {
+			const choice = remaining.shift();
+			return items.find((item) => item.label === choice);
+		},
+	});
+}
+
+const logFor = (branch: string) => `log --format=%h%x09%s refs/heads/${branch} --not --remotes --`;
+
+const tips = new Map<string, BranchTip>([
+	['wip', { branch: 'wip', sha: 'aaa', upstreamRemote: 'upstream', upstreamMerge: 'refs/heads/wip' }],
+]);
+
+suite('unpushed-check', () => {
+	test('findUnpushedCommits parses short SHA and subject', async () => {
+		const { deps } = createHarness({
+			git: { [logFor('wip')]: { stdout: 'abc123\tfix: handle tabs\tin subject\ndef456\tadd thing\n' } },
+		});
+
+		const commits = await findUnpushedCommits((args) => deps.runGitCommand(args, '/repo'), 'wip');
+
+		assert.deepStrictEqual(commits, [
+			{ sha: 'abc123', subject: 'fix: handle tabs\tin subject' },
+			{ sha: 'def456', subject: 'add thing' },
+		]);
+	});
+
+	test('passes through branches whose commits are all on a remote', async () => {
+		const h = createHarness();
+
+		const result = await confirmUnpushedBranches('/repo', ['pushed'], undefined, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: ['pushed'], skipped: [] });
+		assert.strictEqual(h.quickPickRequests.length, 0);
+	});
+
+	test('asks per branch, listing commit count and subjects', async () => {
+		const h = createHarness({
+			choices: ['Skip'],
+			git: {
+				[logFor('wip')]: { stdout: 'a1\tone\na2\ttwo\na3\tthree\na4\tfour\n' },
+				'remote': { stdout: 'origin\nupstream\n' },
+			},
+		});
+
+		const result = await confirmUnpushedBranches('/repo', ['wip'], tips, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: [], skipped: ['wip'] });
+		const request = h.quickPickRequests[0];
+		assert.strictEqual(request.title, 'Git Sweep Pro: "wip" has 4 commit(s) that exist on no remote');
+		assert.strictEqual(request.placeHolder, 'a1 one; a2 two; a3 three; and 1 more');
+		assert.deepStrictEqual(request.items.map((i) => i.label), ['Push to backup ref', 'Skip', 'Delete anyway']);
+		assert.strictEqual(request.items[0].description, 'upstream/backup/wip, then delete');
+		assert.ok(h.outputLines.includes('[unpushed] wip: 4 commit(s) on no remote'));
+		assert.ok(h.outputLines.includes('[skipped] wip: kept because it has unpushed commits'));
+	});
+
+	test('keeps a branch whose commits cannot be listed and checks the others', async () => {
+		const h = createHarness({
+			git: {
+				[logFor('src')]: new Error("fatal: ambiguous argument 'src': both revision and filename"),
+			},
+		});
+
+		const result = await confirmUnpushedBranches('/repo', ['src', 'pushed'], undefined, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: ['pushed'], skipped: ['src'] });
+		assert.ok(h.outputLines.includes("[unpushed-check-failed] src: fatal: ambiguous argument 'src': both revision and filename"));
+		assert.ok(h.outputLines.includes('[skipped] src: kept because its unpushed commits could not be checked'));
+	});
+
+	test('pushes a backup ref before allowing deletion', async () => {
+		const h = createHarness({
+			choices: ['Push to backup ref'],
+			git: { [logFor('wip')]: { stdout: 'a1\tone\n' } },
+		});
+
+		const result = await confirmUnpushedBranches('/repo', ['wip'], tips, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: ['wip'], skipped: [] });
+		assert.ok(h.commands.includes('push upstream refs/heads/wip:refs/heads/backup/wip'));
+		assert.ok(h.outputLines.includes('[backup] wip: pushed to upstream/backup/wip'));
+	});
+
+	test('keeps the branch when the backup push fails', async () => {
+		const h = createHarness({
+			choices: ['Push to backup ref'],
+			git: {
+				[logFor('wip')]: { stdout: 'a1\tone\n' },
+				'push upstream refs/heads/wip:refs/heads/backup/wip': new Error('permission denied'),
+			},
+		});
+
+		const result = await confirmUnpushedBranches('/repo', ['wip'], tips, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: [], skipped: ['wip'] });
+		assert.ok(h.outputLines.includes('[backup-failed] wip: permission denied'));
+	});
+
+	test('deletes anyway on request and treats cancellation as skip', async () => {
+		const h = createHarness({
+			choices: ['Delete anyway', undefined],
+			git: {
+				[logFor('one')]: { stdout: 'a1\tone\n' },
+				[logFor('two')]: { stdout: 'b1\ttwo\n' },
+			},
+		});
+
+		const result = await confirmUnpushedBranches('/repo', ['one', 'two'], undefined, h.deps);
+
+		assert.deepStrictEqual(result, { toDelete: ['one'], skipped: ['two'] });
+	});
+
+	test('does not offer a backup when the repository has no remote', async () => {
+		const h = createHarness({
+			choices: ['Skip'],
+			git: { [logFor('local')]: { stdout: 'a1\tone\n' } },
+		});
+
+		await confirmUnpushedBranches('/repo', ['local'], undefined, h.deps);
+
+		assert.deepStrictEqual(h.quickPickRequests[0].items.map((i) => i.label), ['Skip', 'Delete anyway']);
+	});
+});
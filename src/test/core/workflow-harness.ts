@@ -0,0 +1,129 @@
+import type { SweepReport } from '../../core/sweep-report';
+import type { QuickPickItemLike, SweepWorkflowDeps } from '../../core/sweep-workflow';
+
+/** Canned result of a git command: its output, or the error it fails with. */
+export type GitEntry = { stdout?: string; stderr?: string } | Error;
+
+export type WorkflowHarnessOptions = {
+	/** Defaults to "/repo"; pass undefined explicitly to simulate no open workspace. */
+	workspaceRoot?: string;
+	config?: Record<string, unknown>;
+	/** Answers every quick pick; undefined (or no callback) dismisses it. */
+	quickPickSelection?: (
+		items: QuickPickItemLike[],
+		title: string
+	) => readonly QuickPickItemLike[] | QuickPickItemLike | undefined;
+	/** Keyed by git args joined with spaces, or by "<cwd>: <git args>" when keyByCwd is set. */
+	git?: Record<string, GitEntry>;
+	keyByCwd?: boolean;
+	/** Answers git commands missing from `git`; unanswered commands print nothing. */
+	fallbackGit?: (args: readonly string[]) => GitEntry | undefined;
+	/** Presses the progress notification's cancel button when this progress message is reported. */
+	cancelOnProgress?: string;
+};
+
+export type WorkflowHarness = {
+	deps: SweepWorkflowDeps;
+	outputLines: string[];
+	infoMessages: string[];
+	errorMessages: string[];
+	commands: string[];
+	/** Commands that were given a cancellation signal. */
+	cancellableCommands: string[];
+	progressMessages: string[];
+	quickPickRequests: Array<{ items: QuickPickItemLike[]; title: string; placeHolder: string }>;
+	reports: SweepReport[];
+};
+
+/**
+ * Workflow dependencies backed by canned git output, recording everything shown to the user.
+ */
+export function createWorkflowHarness(options: WorkflowHarnessOptions = {}): WorkflowHarness {
+	const outputLines: string[] = [];
+	const infoMessages: string[] = [];
+	const errorMessages: string[] = [];
+	const commands: string[] = [];
+	const cancellableCommands: string[] = [];
+	const progressMessages: string[] = [];
+	const quickPickRequests: WorkflowHarness['quickPickRequests'] = [];
+	const reports: SweepReport[] = [];
+
+	const deps: SweepWorkflowDeps = {
+		getWorkspaceRoot: () => ('workspaceRoot' in options ? options.workspaceRoot : '/repo'),
+		config: {
+			get: <T>(section: string, defaultValue: T) => (options.config?.[section] as T | undefined) ?? defaultValue,
+		},
+		output: {
+			show: () => undefined,
+			appendLine: (line) => outputLines.push(line),
+		},
+		runGitCommand: async (args, cwd, signal) => {
+			const key = options.keyByCwd ? `${cwd}: ${args.join(' ')}` : args.join(' ');
+			commands.push(key);
+			if (signal) {
+				cancellableCommands.push(key);
+			}
+			const entry = options.git?.[key] ?? options.fallbackGit?.(args);
+			if (entry instanceof Error) {
+				throw entry;
+			}
+			return {
+				stdout: entry?.stdout ?? '',
+				stderr: entry?.stderr ?? '',
+			};
+		},
+		ui: {
+			withProgress: async (_progress, task) => {
+				const controller = new AbortController();
+				return task(
+					{
+						report: ({ message }) => {
+							progressMessages.push(message ?? '');
+							if (message === options.cancelOnProgress) {
+								controller.abort();
+							}
+						},
+					},
+					controller.signal
+				);
+			},
+			showQuickPick: async (items, config) => {
+				quickPickRequests.push({ items, title: config.title, placeHolder: config.placeHolder });
+				return options.quickPickSelection?.(items, config.title);
+			},
+			showInformationMessage: (message) => {
+				infoMessages.push(message);
+			},
+			showErrorMessage: (message) => {
+				errorMessages.push(message);
+			},
+		},
+		recordReport: (report) => reports.push(report),
+	};
+
+	return {
+		deps,
+		outputLines,
+		infoMessages,
+		errorMessages,
+		commands,
+		cancellableCommands,
+		progressMessages,
+		quickPickRequests,
+		reports,
+	};
+}
+
+/**
+ * Answers the `for-each-ref` that lists which branches survived a batch `git branch -d`: as the
+ * harness deletes nothing, all of them still exist unless a test stubs the query.
+ */
+export function listBatchRefs(args: readonly string[]): GitEntry | undefined {
+	const patterns = args.slice(2);
+	return args[0] === 'for-each-ref' &&
+		args[1] === '--format=%(refname)' &&
+		patterns.length > 0 &&
+		patterns.every((pattern) => pattern.startsWith('refs/heads/'))
+		? { stdout: patterns.join('\n') }
+		: undefined;
+}
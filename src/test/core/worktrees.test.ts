@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as path from 'node:path';
+import { findBranchWorktrees, parseWorktreeList } from '../../core/worktrees';
+
+const porcelain = [
+	'worktree /repo\nHEAD aaa\nbranch refs/heads/main',
+	'worktree /work/feature\nHEAD bbb\nbranch refs/heads/feature/x\nlocked reason here',
+	'worktree /work/detached\nHEAD ccc\ndetached',
+	'worktree /work/gone\nHEAD ddd\nbranch refs/heads/old\nprunable gitdir file points to non-existent location',
+	'',
+].join('\n\n');
+
+suite('worktrees', () => {
+	test('parseWorktreeList reads branches, main, locked and prunable worktrees', () => {
+		assert.deepStrictEqual(parseWorktreeList(porcelain), [
+			{ path: '/repo', branch: 'main', isMain: true, locked: false, prunable: false },
+			{ path: '/work/feature', branch: 'feature/x', isMain: false, locked: true, prunable: false },
+			{ path: '/work/detached', branch: undefined, isMain: false, locked: false, prunable: false },
+			{ path: '/work/gone', branch: 'old', isMain: false, locked: false, prunable: true },
+		]);
+		assert.deepStrictEqual(parseWorktreeList(''), []);
+	});
+
+	test('findBranchWorktrees skips the current worktree', async () => {
+		const outputs: Record<string, string> = {
+			'worktree list --porcelain': porcelain,
+			'rev-parse --show-toplevel': `${path.resolve('/work/feature')}\n`,
+		};
+		const runGit = async (args: string[]) => ({ stdout: outputs[args.join(' ')] ?? '', stderr: '' });
+
+		const worktrees = await findBranchWorktrees(runGit);
+
+		assert.deepStrictEqual([...worktrees.keys()], ['main', 'old']);
+	});
+
+	test('findBranchWorktrees does not resolve the top level for a single worktree', async () => {
+		const commands: string[] = [];
+		const runGit = async (args: string[]) => {
+			commands.push(args.join(' '));
+			return { stdout: 'worktree /repo\nHEAD aaa\nbranch refs/heads/main\n', stderr: '' };
+		};
+
+		assert.strictEqual((await findBranchWorktrees(runGit)).size, 0);
+		assert.deepStrictEqual(commands, ['worktree list --porcelain']);
+	});
+});